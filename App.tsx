@@ -1,25 +1,74 @@
 import React, { useEffect, useRef, useState, useCallback } from 'react';
 import { SceneManager } from './services/particleEffects';
 import Controls from './components/Controls';
-import { EffectType, EffectConfig } from './types';
+import { ActionPhase, AudioInput, BindingAction, CameraSettings, EffectType, EffectId, EffectConfig, FaceInput, FrameOutput, HandInput, InputBinding, MusicSettings, ObjectInput, ObjectThresholds, OfflineRenderSettings, PlaybackState, RenderFramesOptions, ScenePreset, SnapshotSettings, TransitionSettings, Tune, TwoHandInput } from './types';
 import { getEffectExplanation } from './services/geminiService';
+import { loadBindings, loadObjectThresholds, saveBindings, saveObjectThresholds } from './services/bindings';
+import { ASSET_MANIFEST, getAssetErrors, onAssetError } from './services/assets';
+import { CAMERA_PARAMS, readParams } from './services/params';
+import { PresetError, loadPresets, presetFromHash, savePresets } from './services/presets';
+import { createFrameWriter } from './services/frameSequence';
+import { downloadBlob, timestampedName } from './services/download';
+import { DEFAULT_MUSIC } from './services/synth';
+import { getEffectDefinition } from './services/effects';
 
 const DEFAULT_CONFIG: EffectConfig = {
   count: 10000,
   size: 0.5,
   speed: 1.0,
-  color: '#ff88cc'
+  color: '#ff88cc',
+  seed: 1
+};
+
+const DEFAULT_PLAYBACK: PlaybackState = {
+  paused: false,
+  timeScale: 1.0,
+  fixedTimestep: false
+};
+
+const DEFAULT_TRANSITION: TransitionSettings = {
+  style: 'dissolve',
+  duration: 1.5
+};
+
+const DEFAULT_CAMERA: CameraSettings = readParams(CAMERA_PARAMS, undefined);
+
+const FIXED_TIMESTEP = 1 / 60;
+
+// A preset shared through the URL hash
+const readSharedPreset = (): { preset: ScenePreset | null; error: string | null } => {
+  try {
+    return { preset: presetFromHash(window.location.hash), error: null };
+  } catch (error) {
+    return { preset: null, error: error instanceof PresetError ? error.message : String(error) };
+  }
 };
 
 const App: React.FC = () => {
   const containerRef = useRef<HTMLDivElement>(null);
   const managerRef = useRef<SceneManager | null>(null);
   
-  const [activeEffect, setActiveEffect] = useState<EffectType>(EffectType.CREATIVE_HEART_FIREWORK);
-  const [config, setConfig] = useState<EffectConfig>(DEFAULT_CONFIG);
+  const [shared] = useState(readSharedPreset);
+  const [activeEffect, setActiveEffect] = useState<EffectId>(shared.preset?.effect ?? EffectType.CREATIVE_HEART_FIREWORK);
+  const [config, setConfig] = useState<EffectConfig>(shared.preset?.config ?? DEFAULT_CONFIG);
+  const [camera, setCamera] = useState<CameraSettings>(shared.preset?.camera ?? DEFAULT_CAMERA);
   const [explanation, setExplanation] = useState<string>("");
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [showControls, setShowControls] = useState<boolean>(true);
+  const [playback, setPlayback] = useState<PlaybackState>(DEFAULT_PLAYBACK);
+  const [transition, setTransition] = useState<TransitionSettings>(DEFAULT_TRANSITION);
+  const [bindings, setBindings] = useState<InputBinding[]>(loadBindings);
+  const [objectThresholds, setObjectThresholds] = useState<ObjectThresholds>(loadObjectThresholds);
+  const [presets, setPresets] = useState<ScenePreset[]>(loadPresets);
+  const [isRecording, setIsRecording] = useState(false);
+  const [audioInput, setAudioInput] = useState<AudioInput>('none');
+  const [music, setMusic] = useState<MusicSettings>(DEFAULT_MUSIC);
+  const [tune, setTune] = useState<Tune | null>(null);
+  const [presetError, setPresetError] = useState<string | null>(shared.error);
+  const [assetErrors, setAssetErrors] = useState(getAssetErrors);
+
+  // Surface assets that could not be loaded from any source
+  useEffect(() => onAssetError(() => setAssetErrors(getAssetErrors())), []);
 
   // Initialize Three.js Scene
   useEffect(() => {
@@ -28,8 +77,10 @@ const App: React.FC = () => {
     const manager = new SceneManager(containerRef.current);
     managerRef.current = manager;
 
-    // Initial effect
-    manager.setEffect(activeEffect, config);
+    manager.setTransition(transition);
+    manager.setCamera(camera);
+    manager.setMusic(music);
+    manager.setTune(tune);
 
     return () => {
       manager.cleanup();
@@ -37,12 +88,62 @@ const App: React.FC = () => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []); // Run once on mount
 
-  // Handle Updates
+  // Switch Effect (the config at the time of the switch)
   useEffect(() => {
-    if (managerRef.current) {
-      managerRef.current.setEffect(activeEffect, config);
+    managerRef.current?.setEffect(activeEffect, config);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeEffect]);
+
+  // Apply Config Changes to the running effect
+  useEffect(() => {
+    managerRef.current?.updateConfig(config);
+  }, [config]);
+
+  // Handle Playback
+  useEffect(() => {
+    const manager = managerRef.current;
+    if (!manager) return;
+    if (playback.paused) {
+      manager.pause();
+    } else {
+      manager.resume();
     }
-  }, [activeEffect, config]);
+    manager.setTimeScale(playback.timeScale);
+    manager.setFixedTimestep(playback.fixedTimestep ? FIXED_TIMESTEP : null);
+  }, [playback]);
+
+  // Handle Effect Transition
+  useEffect(() => {
+    managerRef.current?.setTransition(transition);
+  }, [transition]);
+
+  // Handle Camera
+  useEffect(() => {
+    managerRef.current?.setCamera(camera);
+  }, [camera]);
+
+  // Handle Music
+  useEffect(() => {
+    managerRef.current?.setMusic(music);
+  }, [music]);
+
+  useEffect(() => {
+    managerRef.current?.setTune(tune);
+  }, [tune]);
+
+  // Persist Bindings
+  useEffect(() => {
+    saveBindings(bindings);
+  }, [bindings]);
+
+  useEffect(() => {
+    saveObjectThresholds(objectThresholds);
+  }, [objectThresholds]);
+
+  // Persist Presets
+  useEffect(() => {
+    savePresets(presets);
+  }, [presets]);
 
   // Handle AI Explanation
   useEffect(() => {
@@ -63,13 +164,177 @@ const App: React.FC = () => {
     };
   }, [activeEffect]);
 
+  const applyPreset = useCallback((preset: ScenePreset) => {
+    setActiveEffect(preset.effect);
+    setConfig(preset.config);
+    setCamera(preset.camera);
+  }, []);
+
+  // Links opened in an existing tab only change the hash
+  useEffect(() => {
+    const handleHashChange = () => {
+      const { preset, error } = readSharedPreset();
+      setPresetError(error);
+      if (preset) applyPreset(preset);
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, [applyPreset]);
+
+  const capturePreset = useCallback((name: string): ScenePreset => (
+    { name, effect: activeEffect, config, camera }
+  ), [activeEffect, config, camera]);
+
   const handleConfigChange = useCallback((newConfig: Partial<EffectConfig>) => {
     setConfig(prev => ({ ...prev, ...newConfig }));
   }, []);
 
-  const handleHandStateChange = useCallback((isFist: boolean) => {
-    if (managerRef.current) {
-      managerRef.current.updateHandState(isFist);
+  const handlePlaybackChange = useCallback((newPlayback: Partial<PlaybackState>) => {
+    setPlayback(prev => ({ ...prev, ...newPlayback }));
+  }, []);
+
+  const handleTransitionChange = useCallback((newTransition: Partial<TransitionSettings>) => {
+    setTransition(prev => ({ ...prev, ...newTransition }));
+  }, []);
+
+  const handleStepFrame = useCallback(() => {
+    managerRef.current?.stepFrame();
+  }, []);
+
+  const handleHandsInput = useCallback((hands: HandInput[], twoHand: TwoHandInput | null) => {
+    managerRef.current?.updateHandInput(hands, twoHand);
+  }, []);
+
+  const handleObjectsInput = useCallback((objects: ObjectInput[]) => {
+    managerRef.current?.updateObjectInput(objects);
+  }, []);
+
+  const handleFaceInput = useCallback((face: FaceInput | null) => {
+    managerRef.current?.updateFaceInput(face);
+  }, []);
+
+  const getTimelinePosition = useCallback(() => managerRef.current?.getTimelinePosition() ?? null, []);
+
+  const handleTimelineSeek = useCallback((time: number) => {
+    managerRef.current?.seekTimeline(time);
+  }, []);
+
+  const handleTimelineJump = useCallback((index: number) => {
+    managerRef.current?.jumpToKeyframe(index);
+  }, []);
+
+  const handleToggleRecording = useCallback(async () => {
+    const manager = managerRef.current;
+    if (!manager) return;
+    if (!manager.isRecording()) {
+      try {
+        manager.startRecording();
+        setIsRecording(true);
+      } catch (error) {
+        console.error("Failed to start recording:", error);
+      }
+      return;
+    }
+    setIsRecording(false);
+    const video = await manager.stopRecording();
+    if (video) downloadBlob(video, timestampedName('particles', 'webm'));
+  }, []);
+
+  const handleRenderFrames = useCallback(async (settings: OfflineRenderSettings, output: FrameOutput, options: RenderFramesOptions) => {
+    const manager = managerRef.current;
+    if (!manager) return 0;
+    const writer = await createFrameWriter(output);
+    try {
+      return await manager.renderFrames(settings, writer.write, options);
+    } finally {
+      await writer.finish();
+    }
+  }, []);
+
+  // Whether the microphone was started for the active effect rather than by the user
+  const autoMicrophoneRef = useRef(false);
+
+  const handleAudioInputChange = useCallback(async (input: AudioInput, file?: File) => {
+    const manager = managerRef.current;
+    if (!manager) return;
+    autoMicrophoneRef.current = false;
+    try {
+      if (input === 'microphone') await manager.listenToMicrophone();
+      else if (input === 'file' && file) await manager.playAudioFile(file);
+      else manager.stopAudioInput();
+    } finally {
+      setAudioInput(manager.getAudioInput());
+    }
+  }, []);
+
+  // Effects that listen for sounds start the microphone, unless audio is already
+  // coming in, and stop it again when they end
+  useEffect(() => {
+    if (!getEffectDefinition(activeEffect)?.microphone || managerRef.current?.getAudioInput() !== 'none') return;
+    let isActive = true;
+    const stopMicrophone = () => {
+      const manager = managerRef.current;
+      if (!manager || manager.getAudioInput() !== 'microphone') return;
+      manager.stopAudioInput();
+      setAudioInput(manager.getAudioInput());
+    };
+    handleAudioInputChange('microphone')
+      .then(() => {
+        if (isActive) autoMicrophoneRef.current = true;
+        else stopMicrophone();
+      })
+      .catch(error => console.error("Failed to start the microphone:", error));
+    return () => {
+      isActive = false;
+      if (autoMicrophoneRef.current) stopMicrophone();
+      autoMicrophoneRef.current = false;
+    };
+  }, [activeEffect, handleAudioInputChange]);
+
+  const getAudioFeatures = useCallback(() => managerRef.current?.getAudioFeatures() ?? null, []);
+
+  const handlePlayMusic = useCallback(() => {
+    managerRef.current?.playMusic();
+  }, []);
+
+  const handleStopMusic = useCallback(() => {
+    managerRef.current?.stopMusic();
+  }, []);
+
+  const handleSnapshot = useCallback(async (settings: SnapshotSettings, webcam: HTMLVideoElement | null) => {
+    const manager = managerRef.current;
+    if (!manager) return;
+    const image = await manager.captureSnapshot(settings, webcam);
+    downloadBlob(image, timestampedName(settings.background === 'webcam' ? 'photo' : 'particles', 'png'));
+  }, []);
+
+  const handleBindingAction = useCallback((action: BindingAction, phase: ActionPhase) => {
+    const manager = managerRef.current;
+    if (action.type === 'trigger') {
+      manager?.setTrigger(action.trigger, phase === 'start');
+      return;
+    }
+    if (phase !== 'start') return;
+
+    switch (action.type) {
+      case 'switchEffect':
+        setActiveEffect(action.effect);
+        break;
+      case 'setColor':
+        setConfig(prev => ({ ...prev, color: action.color }));
+        break;
+      case 'playMusic':
+        manager?.playMusic();
+        break;
+      case 'stopMusic':
+        manager?.stopMusic();
+        break;
+      case 'screenshot':
+        manager?.takeScreenshot();
+        break;
+      case 'jumpToKeyframe':
+        manager?.jumpToKeyframe(action.index);
+        break;
     }
   }, []);
 
@@ -97,13 +362,67 @@ const App: React.FC = () => {
             config={config}
             onEffectChange={setActiveEffect}
             onConfigChange={handleConfigChange}
+            playback={playback}
+            onPlaybackChange={handlePlaybackChange}
+            onStepFrame={handleStepFrame}
             explanation={explanation}
             isLoading={isLoading}
             onClose={() => setShowControls(false)}
-            onHandStateChange={handleHandStateChange}
+            bindings={bindings}
+            onBindingsChange={setBindings}
+            objectThresholds={objectThresholds}
+            onObjectThresholdsChange={setObjectThresholds}
+            onBindingAction={handleBindingAction}
+            onHandsInput={handleHandsInput}
+            onObjectsInput={handleObjectsInput}
+            onFaceInput={handleFaceInput}
+            getTimelinePosition={getTimelinePosition}
+            onTimelineSeek={handleTimelineSeek}
+            onTimelineJump={handleTimelineJump}
+            transition={transition}
+            onTransitionChange={handleTransitionChange}
+            camera={camera}
+            onCameraChange={setCamera}
+            presets={presets}
+            onPresetsChange={setPresets}
+            capturePreset={capturePreset}
+            onLoadPreset={applyPreset}
+            isRecording={isRecording}
+            onToggleRecording={handleToggleRecording}
+            onRenderFrames={handleRenderFrames}
+            onSnapshot={handleSnapshot}
+            audioInput={audioInput}
+            onAudioInputChange={handleAudioInputChange}
+            getAudioFeatures={getAudioFeatures}
+            music={music}
+            onMusicChange={setMusic}
+            onTuneChange={setTune}
+            onPlayMusic={handlePlayMusic}
+            onStopMusic={handleStopMusic}
           />
       </div>
 
+      {/* Shared Preset Failure */}
+      {presetError && (
+        <div className="absolute bottom-4 right-4 z-30 max-w-xs p-3 rounded-lg bg-red-900/80 text-red-100 text-xs backdrop-blur-sm">
+          <div className="flex justify-between gap-2">
+            <p className="font-semibold mb-1">分享链接无效</p>
+            <button onClick={() => setPresetError(null)} aria-label="关闭">×</button>
+          </div>
+          <p className="break-all">{presetError}</p>
+        </div>
+      )}
+
+      {/* Asset Load Failures */}
+      {assetErrors.length > 0 && (
+        <div className="absolute top-4 right-4 z-30 max-w-xs p-3 rounded-lg bg-red-900/80 text-red-100 text-xs backdrop-blur-sm">
+          <p className="font-semibold mb-1">资源加载失败</p>
+          {assetErrors.map(error => (
+            <p key={error.asset} className="break-all">{ASSET_MANIFEST[error.asset].label}: {error.attempted.join(' / ')}</p>
+          ))}
+        </div>
+      )}
+
        {/* Overlay Text */}
       {!showControls && (
         <div className="absolute bottom-10 w-full text-center pointer-events-none">
@@ -0,0 +1,94 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AudioFeatures, AudioInput } from '../types';
+
+interface AudioPanelProps {
+  input: AudioInput;
+  onInputChange: (input: AudioInput, file?: File) => Promise<void>;
+  getFeatures: () => AudioFeatures | null;
+}
+
+const METERS: { key: 'bass' | 'mid' | 'treble' | 'level'; label: string }[] = [
+  { key: 'bass', label: '低音' },
+  { key: 'mid', label: '中音' },
+  { key: 'treble', label: '高音' },
+  { key: 'level', label: '响度' }
+];
+
+// How long the beat indicator stays lit, in ms
+const BEAT_FLASH = 120;
+
+const buttonClass = "px-2 py-1 text-xs rounded border bg-white/5 border-white/10 text-gray-300 hover:bg-white/10 disabled:opacity-40";
+
+const AudioPanel: React.FC<AudioPanelProps> = ({ input, onInputChange, getFeatures }) => {
+  const [features, setFeatures] = useState<AudioFeatures | null>(null);
+  const [isBeat, setIsBeat] = useState(false);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const lastBeat = useRef(-Infinity);
+
+  useEffect(() => {
+    if (input === 'none') {
+      setFeatures(null);
+      return;
+    }
+    let frameId: number;
+    const poll = () => {
+      const next = getFeatures();
+      const now = performance.now();
+      if (next?.beat) lastBeat.current = now;
+      setFeatures(next);
+      setIsBeat(now - lastBeat.current < BEAT_FLASH);
+      frameId = requestAnimationFrame(poll);
+    };
+    poll();
+    return () => cancelAnimationFrame(frameId);
+  }, [input, getFeatures]);
+
+  const change = async (next: AudioInput, file?: File) => {
+    setError(null);
+    try {
+      await onInputChange(next, file);
+      setFileName(file?.name ?? null);
+    } catch (failure) {
+      console.error("Audio input failed:", failure);
+      setError(next === 'microphone' ? '无法使用麦克风' : '无法播放该音频文件');
+    }
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) change('file', file);
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex justify-between items-center">
+        <label className="text-xs font-semibold uppercase tracking-wider text-gray-400">音频响应</label>
+        <span className={`w-2 h-2 rounded-full ${isBeat ? 'bg-pink-400' : 'bg-white/10'}`} title="节拍" />
+      </div>
+      <div className="grid grid-cols-3 gap-1">
+        <button onClick={() => change('microphone')} disabled={input === 'microphone'} className={buttonClass}>麦克风</button>
+        <label className={`${buttonClass} text-center cursor-pointer`}>
+          音频文件
+          <input type="file" accept="audio/*" onChange={handleFile} className="hidden" />
+        </label>
+        <button onClick={() => change('none')} disabled={input === 'none'} className={buttonClass}>停止</button>
+      </div>
+      {input === 'file' && fileName && <p className="text-xs text-gray-500 truncate" title={fileName}>{fileName}</p>}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {features && METERS.map(({ key, label }) => (
+        <div key={key} className="flex items-center gap-2 text-xs">
+          <span className="w-8 text-gray-400">{label}</span>
+          <div className="flex-1 h-1 bg-white/20 rounded-lg overflow-hidden">
+            <div className="h-full bg-blue-500" style={{ width: `${features[key] * 100}%` }} />
+          </div>
+        </div>
+      ))}
+      <p className="text-xs text-gray-500">各特效的音频映射在「特效参数」的音频分组中调整</p>
+    </div>
+  );
+};
+
+export default AudioPanel;
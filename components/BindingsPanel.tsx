@@ -0,0 +1,218 @@
+import React from 'react';
+import { BindingAction, BindingSource, EffectTrigger, EffectType, GestureType, InputBinding, ObjectThresholds } from '../types';
+import { listEffects } from '../services/effects';
+import { GESTURE_LABELS } from '../services/gestures';
+import { FACE_EXPRESSIONS } from '../services/faceInput';
+import {
+  ACTION_LABELS,
+  BINDABLE_OBJECTS,
+  DEFAULT_BINDINGS,
+  OBJECT_THRESHOLD_RANGE,
+  TRIGGER_LABELS,
+  boundObjects,
+  createBindingId,
+  describeSource,
+  objectThreshold
+} from '../services/bindings';
+
+interface BindingsPanelProps {
+  bindings: InputBinding[];
+  onChange: (bindings: InputBinding[]) => void;
+  objectThresholds: ObjectThresholds;
+  onObjectThresholdsChange: (thresholds: ObjectThresholds) => void;
+}
+
+const GESTURE_SOURCES: BindingSource[] = Object.values(GestureType)
+  .filter(gesture => gesture !== GestureType.NONE)
+  .map(gesture => ({ kind: 'gesture' as const, gesture }));
+const OBJECT_SOURCES: BindingSource[] = BINDABLE_OBJECTS.map(category => ({ kind: 'object' as const, category }));
+const FACE_SOURCES: BindingSource[] = FACE_EXPRESSIONS.map(expression => ({ kind: 'face' as const, expression }));
+const SOURCE_OPTIONS = [...GESTURE_SOURCES, ...FACE_SOURCES, ...OBJECT_SOURCES];
+
+const sourceKey = (source: BindingSource) =>
+  source.kind === 'gesture' ? `gesture:${source.gesture}`
+    : source.kind === 'face' ? `face:${source.expression}`
+    : `object:${source.category}`;
+
+// A fresh action of the given type with sensible defaults for its fields.
+const defaultAction = (type: BindingAction['type']): BindingAction => {
+  switch (type) {
+    case 'switchEffect': return { type, effect: EffectType.GALAXY };
+    case 'trigger': return { type, trigger: 'morph' };
+    case 'setColor': return { type, color: '#ff88cc' };
+    case 'jumpToKeyframe': return { type, index: 0 };
+    default: return { type } as BindingAction;
+  }
+};
+
+const selectClass = "w-full px-1 py-1 rounded bg-white/5 border border-white/10 text-gray-200 text-xs";
+
+const BindingsPanel: React.FC<BindingsPanelProps> = ({ bindings, onChange, objectThresholds, onObjectThresholdsChange }) => {
+  const objects = boundObjects(bindings);
+
+  const update = (id: string, patch: Partial<InputBinding>) => {
+    onChange(bindings.map(binding => (binding.id === id ? { ...binding, ...patch } : binding)));
+  };
+
+  const remove = (id: string) => {
+    onChange(bindings.filter(binding => binding.id !== id));
+  };
+
+  const add = () => {
+    onChange([...bindings, {
+      id: createBindingId(),
+      source: { kind: 'gesture', gesture: GestureType.THUMBS_UP },
+      action: { type: 'screenshot' }
+    }]);
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <label className="text-xs font-semibold uppercase tracking-wider text-gray-400">输入绑定</label>
+      {bindings.map(binding => (
+        <div key={binding.id} className="flex flex-col gap-1 p-2 rounded-lg bg-white/5 border border-white/10">
+          <div className="flex gap-1">
+            <select
+              value={sourceKey(binding.source)}
+              onChange={(e) => {
+                const source = SOURCE_OPTIONS.find(option => sourceKey(option) === e.target.value);
+                if (source) update(binding.id, { source });
+              }}
+              className={selectClass}
+            >
+              <optgroup label="手势">
+                {GESTURE_SOURCES.map(option => (
+                  <option key={sourceKey(option)} value={sourceKey(option)}>{describeSource(option)}</option>
+                ))}
+              </optgroup>
+              <optgroup label="表情">
+                {FACE_SOURCES.map(option => (
+                  <option key={sourceKey(option)} value={sourceKey(option)}>{describeSource(option)}</option>
+                ))}
+              </optgroup>
+              <optgroup label="物体">
+                {OBJECT_SOURCES.map(option => (
+                  <option key={sourceKey(option)} value={sourceKey(option)}>{describeSource(option)}</option>
+                ))}
+              </optgroup>
+            </select>
+            <button
+              onClick={() => remove(binding.id)}
+              className="px-2 text-gray-400 hover:text-white"
+              aria-label="删除绑定"
+            >
+              ×
+            </button>
+          </div>
+
+          <select
+            value={binding.action.type}
+            onChange={(e) => update(binding.id, { action: defaultAction(e.target.value as BindingAction['type']) })}
+            className={selectClass}
+          >
+            {Object.entries(ACTION_LABELS).map(([type, label]) => (
+              <option key={type} value={type}>{label}</option>
+            ))}
+          </select>
+
+          {binding.action.type === 'switchEffect' && (
+            <select
+              value={binding.action.effect}
+              onChange={(e) => update(binding.id, { action: { type: 'switchEffect', effect: e.target.value } })}
+              className={selectClass}
+            >
+              {listEffects().map(({ id, name }) => (
+                <option key={id} value={id}>{name}</option>
+              ))}
+            </select>
+          )}
+
+          {binding.action.type === 'trigger' && (
+            <select
+              value={binding.action.trigger}
+              onChange={(e) => update(binding.id, { action: { type: 'trigger', trigger: e.target.value as EffectTrigger } })}
+              className={selectClass}
+            >
+              {Object.entries(TRIGGER_LABELS).map(([trigger, label]) => (
+                <option key={trigger} value={trigger}>{label}</option>
+              ))}
+            </select>
+          )}
+
+          {binding.action.type === 'setColor' && (
+            <input
+              type="color"
+              value={binding.action.color}
+              onChange={(e) => update(binding.id, { action: { type: 'setColor', color: e.target.value } })}
+              className="w-full h-6 rounded cursor-pointer bg-transparent border-0"
+            />
+          )}
+
+          {binding.action.type === 'jumpToKeyframe' && (
+            <input
+              type="number"
+              min="1"
+              value={binding.action.index + 1}
+              onChange={(e) => update(binding.id, { action: { type: 'jumpToKeyframe', index: Math.max(0, Math.floor(Number(e.target.value)) - 1) } })}
+              className={selectClass}
+            />
+          )}
+
+          <select
+            value={binding.effect ?? ''}
+            onChange={(e) => update(binding.id, { effect: e.target.value || undefined })}
+            className={selectClass}
+          >
+            <option value="">全部特效</option>
+            {listEffects().map(({ id, name }) => (
+              <option key={id} value={id}>仅 {name}</option>
+            ))}
+          </select>
+        </div>
+      ))}
+
+      {objects.length > 0 && (
+        <div className="flex flex-col gap-1">
+          <label className="text-xs text-gray-400">物体识别阈值</label>
+          {objects.map(category => {
+            const threshold = objectThreshold(objectThresholds, category);
+            return (
+              <div key={category} className="space-y-1">
+                <div className="flex justify-between text-xs">
+                  <span>{describeSource({ kind: 'object', category })}</span>
+                  <span className="text-gray-400">{Math.round(threshold * 100)}%</span>
+                </div>
+                <input
+                  type="range"
+                  min={OBJECT_THRESHOLD_RANGE[0]}
+                  max={OBJECT_THRESHOLD_RANGE[1]}
+                  step="0.05"
+                  value={threshold}
+                  onChange={(e) => onObjectThresholdsChange({ ...objectThresholds, [category]: Number(e.target.value) })}
+                  className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                />
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          onClick={add}
+          className="px-3 py-1 text-xs rounded-lg border bg-white/5 border-white/10 text-gray-300 hover:bg-white/10"
+        >
+          + 添加
+        </button>
+        <button
+          onClick={() => onChange(DEFAULT_BINDINGS)}
+          className="px-3 py-1 text-xs rounded-lg border bg-white/5 border-white/10 text-gray-300 hover:bg-white/10"
+        >
+          恢复默认
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BindingsPanel;
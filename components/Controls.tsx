@@ -1,29 +1,104 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { EffectType, EffectConfig } from '../types';
-import { FilesetResolver, HandLandmarker, ObjectDetector, DrawingUtils, Detection } from '@mediapipe/tasks-vision';
+import { ActionPhase, AudioFeatures, AudioInput, BindingAction, BindingSource, CameraSettings, EffectId, EffectConfig, FaceExpression, FaceInput, FrameOutput, GestureType, HandInput, Handedness, InputBinding, MusicSettings, ObjectInput, ObjectThresholds, OfflineRenderSettings, PlaybackState, RenderFramesOptions, ScenePreset, SnapshotSettings, TimelinePosition, TransitionSettings, TransitionStyle, Tune, TwoHandInput, VisionInput } from '../types';
+import { getEffectDefinition, listEffects } from '../services/effects';
+import { randomSeed } from '../services/random';
+import { CAMERA_PARAMS, COMMON_PARAMS } from '../services/params';
+import { DEFAULT_SPRITE_FALLOFF, SPRITE_FALLOFF_RANGE, SPRITE_LABELS, SpriteName } from '../services/sprites';
+import { TRANSITION_LABELS } from '../services/effectTransition';
+import { GESTURE_LABELS, classifyGesture } from '../services/gestures';
+import { boundObjects, findBindings, objectThreshold, requiredVision } from '../services/bindings';
+import { GestureTracker } from '../services/gestureTracker';
+import { ASSET_MANIFEST, AssetLoadError, resolveAsset } from '../services/assets';
+import { assignHandSlots, heartShapeConfidence, measureHand, measureTwoHands, palmCenter } from '../services/handInput';
+import { OBJECT_LABELS, measureObject } from '../services/objectInput';
+import { FACE_EXPRESSIONS, FACE_EXPRESSION_LABELS, measureFace, scoreExpressions } from '../services/faceInput';
+import { FilesetResolver, FaceLandmarker, HandLandmarker, ObjectDetector, DrawingUtils, Detection, NormalizedLandmark } from '@mediapipe/tasks-vision';
+import BindingsPanel from './BindingsPanel';
+import AudioPanel from './AudioPanel';
+import MusicPanel from './MusicPanel';
+import TextPanel from './TextPanel';
+import ImagePanel from './ImagePanel';
+import ModelPanel from './ModelPanel';
+import TimelinePanel from './TimelinePanel';
+import ParamsPanel from './ParamsPanel';
+import PresetsPanel from './PresetsPanel';
+import RecordPanel from './RecordPanel';
+import SnapshotPanel from './SnapshotPanel';
 
 interface ControlsProps {
-  activeEffect: EffectType;
+  activeEffect: EffectId;
   config: EffectConfig;
-  onEffectChange: (type: EffectType) => void;
+  onEffectChange: (type: EffectId) => void;
   onConfigChange: (newConfig: Partial<EffectConfig>) => void;
+  playback: PlaybackState;
+  onPlaybackChange: (newPlayback: Partial<PlaybackState>) => void;
+  onStepFrame: () => void;
   explanation: string;
   isLoading: boolean;
   onClose: () => void;
-  onHandStateChange: (isActive: boolean) => void;
+  bindings: InputBinding[];
+  onBindingsChange: (bindings: InputBinding[]) => void;
+  objectThresholds: ObjectThresholds;
+  onObjectThresholdsChange: (thresholds: ObjectThresholds) => void;
+  onBindingAction: (action: BindingAction, phase: ActionPhase) => void;
+  onHandsInput: (hands: HandInput[], twoHand: TwoHandInput | null) => void;
+  onObjectsInput: (objects: ObjectInput[]) => void;
+  onFaceInput: (face: FaceInput | null) => void;
+  getTimelinePosition: () => TimelinePosition | null;
+  onTimelineSeek: (time: number) => void;
+  onTimelineJump: (index: number) => void;
+  transition: TransitionSettings;
+  onTransitionChange: (newTransition: Partial<TransitionSettings>) => void;
+  camera: CameraSettings;
+  onCameraChange: (camera: CameraSettings) => void;
+  presets: ScenePreset[];
+  onPresetsChange: (presets: ScenePreset[]) => void;
+  capturePreset: (name: string) => ScenePreset;
+  onLoadPreset: (preset: ScenePreset) => void;
+  isRecording: boolean;
+  onToggleRecording: () => void;
+  onRenderFrames: (settings: OfflineRenderSettings, output: FrameOutput, options: RenderFramesOptions) => Promise<number>;
+  onSnapshot: (settings: SnapshotSettings, webcam: HTMLVideoElement | null) => Promise<void>;
+  audioInput: AudioInput;
+  onAudioInputChange: (input: AudioInput, file?: File) => Promise<void>;
+  getAudioFeatures: () => AudioFeatures | null;
+  music: MusicSettings;
+  onMusicChange: (music: MusicSettings) => void;
+  onTuneChange: (tune: Tune | null) => void;
+  onPlayMusic: () => void;
+  onStopMusic: () => void;
 }
 
-const BASIC_EFFECTS: Record<string, string> = {
-  [EffectType.GALAXY]: '星系 (Galaxy)',
-  [EffectType.WAVE]: '波浪 (Wave)',
-  [EffectType.RAIN]: '雨滴 (Rain)',
-  [EffectType.SPHERE]: '球体 (Sphere)'
+// Two visitors can play together, each hand driving its own attractor
+const MAX_HANDS = 2;
+const HAND_COLORS = ["#FFFFFF", "#FF88CC"];
+
+// The detector reports anything above the lowest threshold a category can be
+// given; each category's own threshold is applied by its tracker
+const OBJECT_SCORE_FLOOR = 0.2;
+// An object stays active until its score drops this far below its threshold
+const OBJECT_HYSTERESIS = 0.1;
+
+// Blendshapes pass through more slowly than hand classifications, so
+// expressions need less confidence; blinks are over too fast to be held.
+const FACE_TRACKER_OPTIONS = { enterThreshold: 0.5, exitThreshold: 0.3, idle: undefined };
+const BLINK_TRACKER_OPTIONS = { ...FACE_TRACKER_OPTIONS, minHoldMs: 0 };
+const FACE_COLOR = "#88CCFF";
+
+const VISION_BADGES: Record<string, string> = {
+  hand: 'Hand',
+  object: 'Object',
+  face: 'Face'
 };
 
-const CREATIVE_EFFECTS: Record<string, string> = {
-  [EffectType.CREATIVE_TEXT]: '✌️ 比耶',
-  [EffectType.CREATIVE_HEART_FIREWORK]: '✊ 握拳',
-  [EffectType.CREATIVE_CAT_CAKE]: '🐱 猫咪'
+type VisionMode = 'auto' | VisionInput;
+
+const VISION_MODE_LABELS: Record<VisionMode, string> = {
+  auto: '自动',
+  hand: '手势',
+  face: '表情',
+  object: '物体',
+  none: '关闭'
 };
 
 const Controls: React.FC<ControlsProps> = ({ 
@@ -31,26 +106,138 @@ const Controls: React.FC<ControlsProps> = ({
   onEffectChange, 
   config, 
   onConfigChange,
+  playback,
+  onPlaybackChange,
+  onStepFrame,
   explanation,
   isLoading,
   onClose,
-  onHandStateChange
+  bindings,
+  onBindingsChange,
+  objectThresholds,
+  onObjectThresholdsChange,
+  onBindingAction,
+  onHandsInput,
+  onObjectsInput,
+  onFaceInput,
+  getTimelinePosition,
+  onTimelineSeek,
+  onTimelineJump,
+  transition,
+  onTransitionChange,
+  camera,
+  onCameraChange,
+  presets,
+  onPresetsChange,
+  capturePreset,
+  onLoadPreset,
+  isRecording,
+  onToggleRecording,
+  onRenderFrames,
+  onSnapshot,
+  audioInput,
+  onAudioInputChange,
+  getAudioFeatures,
+  music,
+  onMusicChange,
+  onTuneChange,
+  onPlayMusic,
+  onStopMusic
 }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [isCameraActive, setIsCameraActive] = useState(false);
+  const [visionMode, setVisionMode] = useState<VisionMode>('auto');
   
   // Models
   const handLandmarkerRef = useRef<HandLandmarker | null>(null);
   const objectDetectorRef = useRef<ObjectDetector | null>(null);
+  const faceLandmarkerRef = useRef<FaceLandmarker | null>(null);
   
   const [detectionLabel, setDetectionLabel] = useState<string>("初始化中...");
 
-  // Initialize MediaPipe based on Active Effect
+  const activeDefinition = getEffectDefinition(activeEffect);
+
+  // A mode picked by the user wins, then the effect's own input; otherwise
+  // run whatever pipeline the bindings need
+  const effectVision = activeDefinition?.vision ?? 'none';
+  const bindingVision = requiredVision(bindings, activeEffect);
+  const visionInput: VisionInput = visionMode !== 'auto' ? visionMode
+    : effectVision !== 'none' ? effectVision
+    : bindingVision.hand ? 'hand'
+    : bindingVision.object ? 'object'
+    : bindingVision.face || activeDefinition?.face ? 'face'
+    : 'none';
+  // Expressions don't compete with the other pipelines, so the face landmarker
+  // also runs next to them whenever a binding or the effect reacts to the face
+  const faceAlongside = visionMode === 'auto' && visionInput !== 'face' && (bindingVision.face || !!activeDefinition?.face);
+  // Likewise the object detector, for object bindings that apply to the effect
+  const objectAlongside = visionMode === 'auto' && visionInput !== 'object' && bindingVision.object;
+
+  // Restart the detector only when the categories it looks for change
+  const objectCategories = visionInput === 'object' || objectAlongside ? boundObjects(bindings, activeEffect).join(',') : '';
+
+  // The prediction loop outlives effect switches, so it reads these through refs
+  const activeEffectRef = useRef(activeEffect);
+  const bindingsRef = useRef(bindings);
+  const objectThresholdsRef = useRef(objectThresholds);
+  activeEffectRef.current = activeEffect;
+  bindingsRef.current = bindings;
+  objectThresholdsRef.current = objectThresholds;
+
+  // Initialize MediaPipe based on the required vision input
   useEffect(() => {
     let animationFrameId: number;
     let isMounted = true;
 
+    // Actions started by a source are ended together when it is released,
+    // even if the active effect changed in between.
+    const heldActions = new Map<string, BindingAction[]>();
+    const startSource = (key: string, source: BindingSource) => {
+      const actions = findBindings(bindingsRef.current, source, activeEffectRef.current).map(binding => binding.action);
+      heldActions.set(key, actions);
+      actions.forEach(action => onBindingAction(action, 'start'));
+    };
+    const endSource = (key: string) => {
+      (heldActions.get(key) ?? []).forEach(action => onBindingAction(action, 'end'));
+      heldActions.delete(key);
+    };
+
+    // Debounced triggers: the scene only hears about deliberate gestures.
+    // One tracker per hand slot, plus one for two-handed shapes.
+    const handTrackers = Array.from({ length: MAX_HANDS }, (_, slot) => {
+      const tracker = new GestureTracker<GestureType>();
+      tracker.on('gestureStart', ({ gesture }) => startSource(`gesture:${slot}:${gesture}`, { kind: 'gesture', gesture }));
+      tracker.on('gestureEnd', ({ gesture }) => endSource(`gesture:${slot}:${gesture}`));
+      return tracker;
+    });
+    const twoHandTracker = new GestureTracker<GestureType>();
+    twoHandTracker.on('gestureStart', ({ gesture }) => startSource(`gesture:both:${gesture}`, { kind: 'gesture', gesture }));
+    twoHandTracker.on('gestureEnd', ({ gesture }) => endSource(`gesture:both:${gesture}`));
+
+    // Continuous hand channel; velocity needs each slot's previous sample
+    let previousHands: (HandInput | null)[] = Array.from({ length: MAX_HANDS }, () => null);
+    let previousHandsTimeMs = 0;
+
+    // The detector flickers more than the hand model, so hold objects a little longer
+    const categories = objectCategories ? objectCategories.split(',') : [];
+    const objectTrackers = new Map<string, GestureTracker<string>>();
+    categories.forEach(category => {
+      const tracker = new GestureTracker<string>({ minHoldMs: 300, lostGraceMs: 1000, idle: undefined });
+      tracker.on('gestureStart', () => startSource(`object:${category}`, { kind: 'object', category }));
+      tracker.on('gestureEnd', () => endSource(`object:${category}`));
+      objectTrackers.set(category, tracker);
+    });
+
+    // One tracker per expression, since a smile and a head turn can happen together
+    const faceTrackers = new Map<FaceExpression, GestureTracker<FaceExpression>>();
+    FACE_EXPRESSIONS.forEach(expression => {
+      const tracker = new GestureTracker<FaceExpression>(expression === 'blink' ? BLINK_TRACKER_OPTIONS : FACE_TRACKER_OPTIONS);
+      tracker.on('gestureStart', () => startSource(`face:${expression}`, { kind: 'face', expression }));
+      tracker.on('gestureEnd', () => endSource(`face:${expression}`));
+      faceTrackers.set(expression, tracker);
+    });
+
     // Clean up previous models/streams when effect changes
     const cleanup = () => {
       if (handLandmarkerRef.current) {
@@ -61,6 +248,10 @@ const Controls: React.FC<ControlsProps> = ({
         objectDetectorRef.current.close();
         objectDetectorRef.current = null;
       }
+      if (faceLandmarkerRef.current) {
+        faceLandmarkerRef.current.close();
+        faceLandmarkerRef.current = null;
+      }
       setIsCameraActive(false);
       setDetectionLabel("初始化中...");
     };
@@ -68,10 +259,13 @@ const Controls: React.FC<ControlsProps> = ({
     const setupVision = async () => {
       cleanup();
 
-      const isHand = activeEffect === EffectType.CREATIVE_TEXT || activeEffect === EffectType.CREATIVE_HEART_FIREWORK;
-      const isObject = activeEffect === EffectType.CREATIVE_CAT_CAKE;
+      const isHand = visionInput === 'hand';
+      const isObject = visionInput === 'object';
+      const isFace = visionInput === 'face';
+      const withObjects = isObject || objectAlongside;
+      const withFace = isFace || faceAlongside;
 
-      if (!isHand && !isObject) {
+      if (!isHand && !withObjects && !withFace) {
          // Not a vision effect, stop camera
          if (videoRef.current && videoRef.current.srcObject) {
             const stream = videoRef.current.srcObject as MediaStream;
@@ -82,40 +276,53 @@ const Controls: React.FC<ControlsProps> = ({
       }
 
       try {
-        const vision = await FilesetResolver.forVisionTasks(
-          "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.9/wasm"
-        );
+        const vision = await FilesetResolver.forVisionTasks(await resolveAsset('visionWasm'));
         
         if (!isMounted) return;
 
         if (isHand) {
             handLandmarkerRef.current = await HandLandmarker.createFromOptions(vision, {
               baseOptions: {
-                modelAssetPath: `https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task`,
+                modelAssetPath: await resolveAsset('handLandmarker'),
                 delegate: "GPU"
               },
               runningMode: "VIDEO",
-              numHands: 1
+              numHands: MAX_HANDS
             });
             setDetectionLabel("等待手势...");
         } 
-        else if (isObject) {
+        if (withObjects) {
             objectDetectorRef.current = await ObjectDetector.createFromOptions(vision, {
                 baseOptions: {
-                    modelAssetPath: `https://storage.googleapis.com/mediapipe-models/object_detector/efficientdet_lite0/float16/1/efficientdet_lite0.tflite`,
+                    modelAssetPath: await resolveAsset('objectDetector'),
                     delegate: "GPU"
                 },
-                scoreThreshold: 0.4,
+                scoreThreshold: OBJECT_SCORE_FLOOR,
                 runningMode: "VIDEO",
-                categoryAllowlist: ["cat"] // Optimize for cat
+                categoryAllowlist: categories
             });
-            setDetectionLabel("寻找猫咪...");
+            if (isObject) setDetectionLabel("寻找物体...");
+        }
+        if (withFace) {
+            faceLandmarkerRef.current = await FaceLandmarker.createFromOptions(vision, {
+                baseOptions: {
+                    modelAssetPath: await resolveAsset('faceLandmarker'),
+                    delegate: "GPU"
+                },
+                runningMode: "VIDEO",
+                numFaces: 1,
+                outputFaceBlendshapes: true,
+                outputFacialTransformationMatrixes: true
+            });
+            if (isFace) setDetectionLabel("寻找人脸...");
         }
 
         startCamera();
       } catch (error) {
         console.error("Error initializing MediaPipe:", error);
-        setDetectionLabel("模型加载失败");
+        setDetectionLabel(error instanceof AssetLoadError
+          ? `${ASSET_MANIFEST[error.asset].label}加载失败`
+          : "模型加载失败");
       }
     };
 
@@ -146,7 +353,6 @@ const Controls: React.FC<ControlsProps> = ({
 
       if (video.currentTime > 0 && !video.paused && !video.ended) {
          const startTimeMs = performance.now();
-         let isActive = false;
          
          ctx.clearRect(0, 0, canvas.width, canvas.height);
 
@@ -154,94 +360,128 @@ const Controls: React.FC<ControlsProps> = ({
          if (handLandmarkerRef.current) {
              const results = handLandmarkerRef.current.detectForVideo(video, startTimeMs);
              
-             if (results.landmarks && results.landmarks.length > 0) {
-                const landmarks = results.landmarks[0];
-                const worldLandmarks = results.worldLandmarks[0];
+             const handedness = results.handedness ?? [];
+             const worldLandmarks = results.worldLandmarks ?? [];
+             const detected = (results.landmarks ?? []).filter((_, i) => worldLandmarks[i]);
+             const detectedWorld = worldLandmarks.filter(Boolean);
+             const slots = assignHandSlots(previousHands.map(hand => hand?.position ?? null), detected.map(palmCenter));
+             const deltaSeconds = (startTimeMs - previousHandsTimeMs) / 1000;
+             const hands: (HandInput | null)[] = Array.from({ length: MAX_HANDS }, () => null);
+             const slotLandmarks: NormalizedLandmark[][] = [];
+             const drawingUtils = new DrawingUtils(ctx);
+
+             detected.forEach((landmarks, i) => {
+                const slot = slots[i];
+                const label = (handedness[i]?.[0]?.categoryName ?? 'Right') as Handedness;
 
                 // Draw
-                const drawingUtils = new DrawingUtils(ctx);
-                drawingUtils.drawConnectors(landmarks, HandLandmarker.HAND_CONNECTIONS, { color: "#FFFFFF", lineWidth: 2 });
-                drawingUtils.drawLandmarks(landmarks, { color: "#FFFFFF", lineWidth: 1, radius: 3 });
+                drawingUtils.drawConnectors(landmarks, HandLandmarker.HAND_CONNECTIONS, { color: HAND_COLORS[slot], lineWidth: 2 });
+                drawingUtils.drawLandmarks(landmarks, { color: HAND_COLORS[slot], lineWidth: 1, radius: 3 });
 
                 // Logic
-                if (worldLandmarks) {
-                    const wrist = worldLandmarks[0];
-                    const handSize = Math.sqrt(
-                        Math.pow(worldLandmarks[9].x - wrist.x, 2) +
-                        Math.pow(worldLandmarks[9].y - wrist.y, 2) +
-                        Math.pow(worldLandmarks[9].z - wrist.z, 2)
-                    );
-
-                    const isCurled = (tipIdx: number) => {
-                        const tip = worldLandmarks[tipIdx];
-                        const distToWrist = Math.sqrt(
-                            Math.pow(tip.x - wrist.x, 2) +
-                            Math.pow(tip.y - wrist.y, 2) +
-                            Math.pow(tip.z - wrist.z, 2)
-                        );
-                        return distToWrist < handSize * 1.2;
-                    };
-
-                    const indexCurled = isCurled(8);
-                    const middleCurled = isCurled(12);
-                    const ringCurled = isCurled(16);
-                    const pinkyCurled = isCurled(20);
-
-                    if (activeEffect === EffectType.CREATIVE_TEXT) {
-                        // Victory (V-Sign)
-                        if (!indexCurled && !middleCurled && ringCurled && pinkyCurled) {
-                            isActive = true;
-                            setDetectionLabel("✌️ 比耶: 展示小龙虾");
-                        } else {
-                            setDetectionLabel("等待: ✌️");
-                        }
-                    } else if (activeEffect === EffectType.CREATIVE_HEART_FIREWORK) {
-                        // Fist
-                        if (indexCurled && middleCurled && ringCurled && pinkyCurled) {
-                            isActive = true;
-                            setDetectionLabel("✊ 握拳: 发射烟花");
-                        } else {
-                            setDetectionLabel("等待: ✊");
-                        }
-                    }
-                }
+                handTrackers[slot].update(classifyGesture(detectedWorld[i]), startTimeMs);
+                hands[slot] = measureHand(label, landmarks, detectedWorld[i], previousHands[slot], deltaSeconds);
+                slotLandmarks[slot] = landmarks;
+             });
+
+             handTrackers.forEach((tracker, slot) => {
+                if (!hands[slot]) tracker.update(null, startTimeMs);
+             });
+
+             const present = hands.filter((hand): hand is HandInput => hand !== null);
+             let twoHand: TwoHandInput | null = null;
+             if (present.length === 2) {
+                twoHand = measureTwoHands(present[0], present[1]);
+                twoHandTracker.update({ gesture: GestureType.HEART_HANDS, confidence: heartShapeConfidence(slotLandmarks[0], slotLandmarks[1]) }, startTimeMs);
              } else {
-                 setDetectionLabel("未检测到手势");
+                twoHandTracker.update(null, startTimeMs);
              }
+
+             previousHands = hands;
+             previousHandsTimeMs = startTimeMs;
+             onHandsInput(present, twoHand);
+
+             const activeGestures = [twoHandTracker, ...handTrackers]
+                .map(tracker => tracker.getActive())
+                .filter((gesture): gesture is GestureType => gesture !== null)
+                .map(gesture => GESTURE_LABELS[gesture]);
+             setDetectionLabel(
+                present.length === 0 ? "未检测到手势"
+                  : activeGestures.length > 0 ? activeGestures.join(' ')
+                  : "等待手势..."
+             );
          }
          
-         // --- Object Detection ---
-         else if (objectDetectorRef.current) {
+         // --- Object Detection, on its own or next to the hands ---
+         if (objectDetectorRef.current) {
              const results = objectDetectorRef.current.detectForVideo(video, startTimeMs);
-             
-             if (results.detections && results.detections.length > 0) {
-                 // Filter for cats
-                 const catDetection = results.detections.find(d => 
-                     d.categories.some(c => c.categoryName === 'cat')
-                 );
-
-                 if (catDetection && catDetection.boundingBox) {
-                     isActive = true;
-                     setDetectionLabel("🐱 发现猫咪! 生日快乐!");
-                     
-                     // Draw Box
-                     const box = catDetection.boundingBox;
-                     ctx.strokeStyle = "#00FF00";
-                     ctx.lineWidth = 3;
-                     ctx.strokeRect(box.originX, box.originY, box.width, box.height);
-                     
-                     ctx.fillStyle = "#00FF00";
-                     ctx.font = "16px Arial";
-                     ctx.fillText("CAT", box.originX, box.originY - 5);
-                 } else {
-                     setDetectionLabel("寻找猫咪...");
-                 }
-             } else {
-                 setDetectionLabel("寻找猫咪...");
-             }
+
+             // Best score per category drives its tracker; boxes near or above their
+             // threshold are passed on to the scene
+             const scores = new Map<string, number>();
+             const objects: ObjectInput[] = [];
+
+             results.detections?.forEach(detection => {
+                 const best = detection.categories.reduce((a, b) => (b.score > a.score ? b : a), detection.categories[0]);
+                 if (!best || !objectTrackers.has(best.categoryName) || !detection.boundingBox) return;
+                 const threshold = objectThreshold(objectThresholdsRef.current, best.categoryName);
+                 scores.set(best.categoryName, Math.max(scores.get(best.categoryName) ?? 0, best.score));
+                 if (best.score < threshold - OBJECT_HYSTERESIS) return;
+                 objects.push(measureObject(best.categoryName, best.score, detection.boundingBox, video.videoWidth, video.videoHeight));
+
+                 // Draw Box, in canvas pixels
+                 const box = detection.boundingBox;
+                 const sx = canvas.width / video.videoWidth;
+                 const sy = canvas.height / video.videoHeight;
+                 ctx.strokeStyle = best.score >= threshold ? "#00FF00" : "#668866";
+                 ctx.lineWidth = 3;
+                 ctx.strokeRect(box.originX * sx, box.originY * sy, box.width * sx, box.height * sy);
+                 
+                 ctx.fillStyle = ctx.strokeStyle;
+                 ctx.font = "16px Arial";
+                 ctx.fillText(`${best.categoryName.toUpperCase()} ${Math.round(best.score * 100)}%`, box.originX * sx, box.originY * sy - 5);
+             });
+
+             objectTrackers.forEach((tracker, category) => {
+                 const threshold = objectThreshold(objectThresholdsRef.current, category);
+                 tracker.configure({ enterThreshold: threshold, exitThreshold: threshold - OBJECT_HYSTERESIS });
+                 const score = scores.get(category);
+                 tracker.update(score === undefined ? null : { gesture: category, confidence: score }, startTimeMs);
+             });
+             onObjectsInput(objects);
+
+             const activeObjects = Array.from(objectTrackers.values()).map(tracker => tracker.getActive()).filter(Boolean).map(category => OBJECT_LABELS[category] ?? category);
+             if (visionInput === 'object') setDetectionLabel(activeObjects.length > 0 ? `发现: ${activeObjects.join(', ')}` : "寻找物体...");
          }
 
-         onHandStateChange(isActive);
+         // --- Face Tracking, on its own or next to the hands or objects ---
+         if (faceLandmarkerRef.current) {
+             const results = faceLandmarkerRef.current.detectForVideo(video, startTimeMs);
+             const landmarks = results.faceLandmarks?.[0];
+             const face = landmarks
+                 ? measureFace(landmarks, results.faceBlendshapes?.[0]?.categories ?? [], results.facialTransformationMatrixes?.[0]?.data)
+                 : null;
+
+             if (landmarks) {
+                 new DrawingUtils(ctx).drawConnectors(landmarks, FaceLandmarker.FACE_LANDMARKS_CONTOURS, { color: FACE_COLOR, lineWidth: 1 });
+             }
+
+             const scores = face ? scoreExpressions(face) : null;
+             faceTrackers.forEach((tracker, expression) => {
+                 tracker.update(scores ? { gesture: expression, confidence: scores[expression] } : null, startTimeMs);
+             });
+             onFaceInput(face);
+
+             const activeExpressions = Array.from(faceTrackers.values())
+                .map(tracker => tracker.getActive())
+                .filter((expression): expression is FaceExpression => expression !== null)
+                .map(expression => FACE_EXPRESSION_LABELS[expression]);
+             if (visionInput === 'face') setDetectionLabel(
+                !face ? "未检测到人脸"
+                  : activeExpressions.length > 0 ? activeExpressions.join(' ')
+                  : "等待表情..."
+             );
+         }
       }
       animationFrameId = requestAnimationFrame(predictWebcam);
     };
@@ -250,10 +490,17 @@ const Controls: React.FC<ControlsProps> = ({
 
     return () => {
       isMounted = false;
+      handTrackers.forEach(tracker => tracker.reset());
+      twoHandTracker.reset();
+      objectTrackers.forEach(tracker => tracker.reset());
+      faceTrackers.forEach(tracker => tracker.reset());
+      onHandsInput([], null);
+      onObjectsInput([]);
+      onFaceInput(null);
       cleanup();
       if (animationFrameId) cancelAnimationFrame(animationFrameId);
     };
-  }, [activeEffect, onHandStateChange]);
+  }, [visionInput, faceAlongside, objectAlongside, objectCategories, onBindingAction, onHandsInput, onObjectsInput, onFaceInput]);
 
   return (
     <div className="w-full bg-black/10 backdrop-blur-md text-white p-2 border-r border-white/10 rounded-lg flex flex-col gap-6 overflow-y-auto">
@@ -271,8 +518,22 @@ const Controls: React.FC<ControlsProps> = ({
         </button>
       </div> */}
 
+      {/* Camera Input */}
+      <div className="flex flex-col gap-2">
+        <label className="text-xs font-semibold uppercase tracking-wider text-gray-400">摄像头输入</label>
+        <select
+          value={visionMode}
+          onChange={(e) => setVisionMode(e.target.value as VisionMode)}
+          className="w-full px-2 py-1 rounded bg-white/5 border border-white/10 text-gray-200 text-xs"
+        >
+          {(Object.keys(VISION_MODE_LABELS) as VisionMode[]).map(mode => (
+            <option key={mode} value={mode}>{VISION_MODE_LABELS[mode]}</option>
+          ))}
+        </select>
+      </div>
+
       {/* Camera View (Only for Creative Mode) */}
-      {(activeEffect === EffectType.CREATIVE_TEXT || activeEffect === EffectType.CREATIVE_HEART_FIREWORK || activeEffect === EffectType.CREATIVE_CAT_CAKE) && (
+      {visionInput !== 'none' && (
         <div className="relative w-full aspect-[6/3] bg-black rounded-lg overflow-hidden border border-white/20">
            <video 
              ref={videoRef} 
@@ -299,15 +560,15 @@ const Controls: React.FC<ControlsProps> = ({
       )}
 
       {/* Effect Selectors */}
-      {/* <div className="flex flex-col gap-2">
+      <div className="flex flex-col gap-2">
         <label className="text-xs font-semibold uppercase tracking-wider text-gray-400">基础特效</label>
         <div className="grid grid-cols-2 gap-2">
-          {Object.entries(BASIC_EFFECTS).map(([type, name]) => (
+          {listEffects('basic').map(({ id, name }) => (
             <button
-              key={type}
-              onClick={() => onEffectChange(type as EffectType)}
+              key={id}
+              onClick={() => onEffectChange(id)}
               className={`px-3 py-2 text-sm rounded-lg border transition-all duration-200 ${
-                activeEffect === type
+                activeEffect === id
                   ? 'bg-blue-600 border-blue-500 text-white shadow-[0_0_15px_rgba(37,99,235,0.5)]'
                   : 'bg-white/5 border-white/10 text-gray-300 hover:bg-white/10'
               }`}
@@ -316,106 +577,239 @@ const Controls: React.FC<ControlsProps> = ({
             </button>
           ))}
         </div>
-      </div> */}
+      </div>
 
-      {/* <div className="flex flex-col gap-2">
+      <div className="flex flex-col gap-2">
         <label className="text-xs font-semibold uppercase tracking-wider text-transparent bg-clip-text bg-gradient-to-r from-purple-400 to-pink-600">创意类型 (AI识别)</label>
         <div className="grid grid-cols-1 gap-2">
-          {Object.entries(CREATIVE_EFFECTS).map(([type, name]) => (
+          {listEffects('creative').map(({ id, name, vision }) => (
             <button
-              key={type}
-              onClick={() => onEffectChange(type as EffectType)}
+              key={id}
+              onClick={() => onEffectChange(id)}
               className={`px-3 py-2 text-sm rounded-lg border transition-all duration-200 ${
-                activeEffect === type
+                activeEffect === id
                   ? 'bg-purple-600 border-purple-500 text-white shadow-[0_0_15px_rgba(147,51,234,0.5)]'
                   : 'bg-white/5 border-white/10 text-gray-300 hover:bg-white/10'
               }`}
             >
               <div className="flex items-center justify-between">
                 <span>{name}</span>
-                <span className="text-xs bg-white/20 px-1.5 py-0.5 rounded">
-                  {type === EffectType.CREATIVE_CAT_CAKE ? 'Object' : 'Hand'}
-                </span>
+                {VISION_BADGES[vision] && (
+                  <span className="text-xs bg-white/20 px-1.5 py-0.5 rounded">
+                    {VISION_BADGES[vision]}
+                  </span>
+                )}
               </div>
             </button>
           ))}
         </div>
-      </div> */}
+      </div>
 
-      {/* AI Explanation */}
-      {/* <div className="bg-white/5 border border-white/10 rounded-lg p-4">
-        <div className="flex items-center gap-2 mb-2">
-           <svg className="w-4 h-4 text-purple-400" fill="currentColor" viewBox="0 0 24 24"><path d="M12 2a10 10 0 1 0 10 10A10 10 0 0 0 12 2zm0 18a8 8 0 1 1 8-8 8 8 0 0 1-8 8zm1-13h-2v6h6v-2h-4z"/></svg>
-           <span className="text-xs font-semibold uppercase tracking-wider text-purple-400">AI 解析 (Gemini)</span>
-        </div>
-        <p className={`text-sm leading-relaxed text-gray-300 ${isLoading ? 'animate-pulse' : ''}`}>
-          {isLoading ? '正在生成解释...' : explanation}
-        </p>
-      </div> */}
+      {/* Presets */}
+      <PresetsPanel presets={presets} onChange={onPresetsChange} capture={capturePreset} onLoad={onLoadPreset} />
 
       {/* Parameters */}
-      {/* <div className="flex flex-col gap-4">
-        <label className="text-xs font-semibold uppercase tracking-wider text-gray-400">参数设置</label>
-        
+      <ParamsPanel
+        title="参数设置"
+        schema={COMMON_PARAMS}
+        values={{ count: config.count, speed: config.speed, size: config.size, color: config.color }}
+        onChange={(values) => onConfigChange(values as Partial<EffectConfig>)}
+      />
+      {activeDefinition?.params && (
+        <ParamsPanel
+          title="特效参数"
+          schema={activeDefinition.params}
+          values={config.params?.[activeEffect]}
+          onChange={(values) => onConfigChange({ params: { ...config.params, [activeEffect]: values } })}
+        />
+      )}
+
+      {/* Morph Timeline */}
+      {activeDefinition?.usesTimeline && (
+        <TimelinePanel
+          timeline={config.timeline}
+          onChange={(timeline) => onConfigChange({ timeline })}
+          getPosition={getTimelinePosition}
+          onSeek={onTimelineSeek}
+          onJump={onTimelineJump}
+        />
+      )}
+
+      {/* Text Target */}
+      {activeDefinition?.defaultText !== undefined && (
+        <TextPanel
+          defaultText={activeDefinition.defaultText}
+          text={config.text}
+          onChange={(text) => onConfigChange({ text })}
+        />
+      )}
+
+      {/* Image / Model Targets */}
+      {activeDefinition?.acceptsShapeTargets && (
+        <>
+          <ImagePanel image={config.image} onChange={(image) => onConfigChange({ image })} />
+          <ModelPanel model={config.model} onChange={(model) => onConfigChange({ model })} />
+        </>
+      )}
+
+      {/* Particle Sprite */}
+      <div className="flex flex-col gap-2">
+        <label className="text-xs font-semibold uppercase tracking-wider text-gray-400">粒子贴图</label>
+        <select
+          value={config.sprite ?? ''}
+          onChange={(e) => onConfigChange({ sprite: (e.target.value || undefined) as SpriteName | undefined })}
+          className="w-full px-2 py-1 rounded bg-white/5 border border-white/10 text-gray-200 text-xs"
+        >
+          <option value="">特效默认</option>
+          {Object.entries(SPRITE_LABELS).map(([name, label]) => (
+            <option key={name} value={name}>{label}</option>
+          ))}
+        </select>
         <div className="space-y-1">
           <div className="flex justify-between text-xs">
-            <span>粒子数量</span>
-            <span className="text-gray-400">{config.count}</span>
+            <span>边缘柔和度</span>
+            <span className="text-gray-400">{(config.spriteFalloff ?? DEFAULT_SPRITE_FALLOFF).toFixed(2)}</span>
           </div>
           <input
             type="range"
-            min="1000"
-            max="30000"
-            step="1000"
-            value={config.count}
-            onChange={(e) => onConfigChange({ count: Number(e.target.value) })}
+            min={SPRITE_FALLOFF_RANGE[0]}
+            max={SPRITE_FALLOFF_RANGE[1]}
+            step="0.05"
+            value={config.spriteFalloff ?? DEFAULT_SPRITE_FALLOFF}
+            onChange={(e) => onConfigChange({ spriteFalloff: Number(e.target.value) })}
             className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer accent-blue-500"
           />
         </div>
-
+      </div>
+
+      {/* Effect Transition */}
+      <div className="flex flex-col gap-2">
+        <label className="text-xs font-semibold uppercase tracking-wider text-gray-400">切换过渡</label>
+        <select
+          value={transition.style}
+          onChange={(e) => onTransitionChange({ style: e.target.value as TransitionStyle })}
+          className="w-full px-2 py-1 rounded bg-white/5 border border-white/10 text-gray-200 text-xs"
+        >
+          {Object.entries(TRANSITION_LABELS).map(([style, label]) => (
+            <option key={style} value={style}>{label}</option>
+          ))}
+        </select>
+        {transition.style !== 'cut' && (
+          <div className="space-y-1">
+            <div className="flex justify-between text-xs">
+              <span>过渡时长</span>
+              <span className="text-gray-400">{transition.duration.toFixed(1)}s</span>
+            </div>
+            <input
+              type="range"
+              min="0.2"
+              max="5"
+              step="0.1"
+              value={transition.duration}
+              onChange={(e) => onTransitionChange({ duration: Number(e.target.value) })}
+              className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer accent-blue-500"
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Camera */}
+      <ParamsPanel
+        title="相机"
+        schema={CAMERA_PARAMS}
+        values={{ ...camera }}
+        onChange={(values) => onCameraChange(values as unknown as CameraSettings)}
+      />
+
+      {/* Audio-reactive Input */}
+      <AudioPanel input={audioInput} onInputChange={onAudioInputChange} getFeatures={getAudioFeatures} />
+
+      {/* Music */}
+      <MusicPanel settings={music} onChange={onMusicChange} onTuneChange={onTuneChange} onPlay={onPlayMusic} onStop={onStopMusic} />
+
+      {/* Gesture Bindings */}
+      <BindingsPanel
+        bindings={bindings}
+        onChange={onBindingsChange}
+        objectThresholds={objectThresholds}
+        onObjectThresholdsChange={onObjectThresholdsChange}
+      />
+
+      {/* Playback */}
+      <div className="flex flex-col gap-2">
+        <label className="text-xs font-semibold uppercase tracking-wider text-gray-400">播放控制</label>
+        <div className="grid grid-cols-2 gap-2">
+          <button
+            onClick={() => onPlaybackChange({ paused: !playback.paused })}
+            className="px-3 py-2 text-sm rounded-lg border bg-white/5 border-white/10 text-gray-300 hover:bg-white/10"
+          >
+            {playback.paused ? '▶ 继续' : '⏸ 暂停'}
+          </button>
+          <button
+            onClick={onStepFrame}
+            disabled={!playback.paused}
+            className="px-3 py-2 text-sm rounded-lg border bg-white/5 border-white/10 text-gray-300 hover:bg-white/10 disabled:opacity-40"
+          >
+            ⏭ 单帧
+          </button>
+        </div>
         <div className="space-y-1">
           <div className="flex justify-between text-xs">
-            <span>速度</span>
-            <span className="text-gray-400">{config.speed.toFixed(1)}x</span>
+            <span>时间倍率</span>
+            <span className="text-gray-400">{playback.timeScale.toFixed(2)}x</span>
           </div>
           <input
             type="range"
-            min="0.1"
-            max="5.0"
-            step="0.1"
-            value={config.speed}
-            onChange={(e) => onConfigChange({ speed: Number(e.target.value) })}
+            min="0"
+            max="3"
+            step="0.05"
+            value={playback.timeScale}
+            onChange={(e) => onPlaybackChange({ timeScale: Number(e.target.value) })}
             className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer accent-blue-500"
           />
         </div>
-
-         <div className="space-y-1">
-          <div className="flex justify-between text-xs">
-            <span>尺寸</span>
-            <span className="text-gray-400">{config.size.toFixed(1)}</span>
-          </div>
+        <label className="flex items-center gap-2 text-xs text-gray-300">
           <input
-            type="range"
-            min="0.1"
-            max="3.0"
-            step="0.1"
-            value={config.size}
-            onChange={(e) => onConfigChange({ size: Number(e.target.value) })}
-            className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer accent-blue-500"
+            type="checkbox"
+            checked={playback.fixedTimestep}
+            onChange={(e) => onPlaybackChange({ fixedTimestep: e.target.checked })}
           />
+          固定时间步长 (60Hz)
+        </label>
+        <div className="flex items-center gap-2 text-xs">
+          <span className="text-gray-300">随机种子</span>
+          <input
+            type="number"
+            min="0"
+            value={config.seed}
+            onChange={(e) => onConfigChange({ seed: Math.max(0, Math.floor(Number(e.target.value))) })}
+            className="flex-1 min-w-0 px-2 py-1 rounded bg-white/5 border border-white/10 text-gray-200"
+          />
+          <button
+            onClick={() => onConfigChange({ seed: randomSeed() })}
+            className="px-2 py-1 rounded border bg-white/5 border-white/10 text-gray-300 hover:bg-white/10"
+            aria-label="随机种子"
+          >
+            🎲
+          </button>
         </div>
+      </div>
 
-        <div className="space-y-1">
-          <div className="flex justify-between text-xs">
-            <span>颜色</span>
-          </div>
-          <input 
-            type="color" 
-            value={config.color}
-            onChange={(e) => onConfigChange({ color: e.target.value })}
-            className="w-full h-8 rounded cursor-pointer bg-transparent border-0"
-          />
+      {/* Snapshot */}
+      <SnapshotPanel canUseWebcam={isCameraActive} onSnapshot={(settings) => onSnapshot(settings, videoRef.current)} />
+
+      {/* Recording */}
+      <RecordPanel isRecording={isRecording} onToggleRecording={onToggleRecording} onRenderFrames={onRenderFrames} />
+
+      {/* AI Explanation */}
+      {/* <div className="bg-white/5 border border-white/10 rounded-lg p-4">
+        <div className="flex items-center gap-2 mb-2">
+           <svg className="w-4 h-4 text-purple-400" fill="currentColor" viewBox="0 0 24 24"><path d="M12 2a10 10 0 1 0 10 10A10 10 0 0 0 12 2zm0 18a8 8 0 1 1 8-8 8 8 0 0 1-8 8zm1-13h-2v6h6v-2h-4z"/></svg>
+           <span className="text-xs font-semibold uppercase tracking-wider text-purple-400">AI 解析 (Gemini)</span>
         </div>
+        <p className={`text-sm leading-relaxed text-gray-300 ${isLoading ? 'animate-pulse' : ''}`}>
+          {isLoading ? '正在生成解释...' : explanation}
+        </p>
       </div> */}
     </div>
   );
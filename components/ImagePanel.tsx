@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { ImageTarget } from '../types';
+import { DEFAULT_IMAGE_TARGET, readFileAsDataUrl } from '../services/effects';
+
+interface ImagePanelProps {
+  image: ImageTarget | undefined;
+  onChange: (image: ImageTarget | undefined) => void;
+}
+
+const rangeClass = "w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer accent-blue-500";
+const buttonClass = "px-3 py-1 text-xs rounded-lg border bg-white/5 border-white/10 text-gray-300 hover:bg-white/10";
+
+const ImagePanel: React.FC<ImagePanelProps> = ({ image, onChange }) => {
+  const [url, setUrl] = useState('');
+  const update = (patch: Partial<ImageTarget>) => {
+    if (image) onChange({ ...image, ...patch });
+  };
+  const applySource = (src: string) => onChange({ ...DEFAULT_IMAGE_TARGET, ...image, src });
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      applySource(await readFileAsDataUrl(file));
+    } catch (error) {
+      console.error("Failed to read image:", error);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <label className="text-xs font-semibold uppercase tracking-wider text-gray-400">图片变形</label>
+      <label className={`${buttonClass} text-center cursor-pointer`}>
+        上传图片 (PNG/JPEG/SVG)
+        <input type="file" accept="image/png,image/jpeg,image/svg+xml" onChange={handleFile} className="hidden" />
+      </label>
+      <div className="flex gap-1">
+        <input
+          type="text"
+          value={url}
+          placeholder="./offline/logo.svg"
+          onChange={(e) => setUrl(e.target.value)}
+          className="flex-1 min-w-0 px-2 py-1 rounded bg-white/5 border border-white/10 text-gray-200 text-xs"
+        />
+        <button onClick={() => url.trim() && applySource(url.trim())} className={buttonClass}>
+          使用
+        </button>
+      </div>
+
+      {image && (
+        <>
+          <img src={image.src} alt="" className="h-16 object-contain rounded bg-white/5" />
+          <label className="flex items-center gap-2 text-xs text-gray-300">
+            <input type="checkbox" checked={image.sampleColors} onChange={(e) => update({ sampleColors: e.target.checked })} />
+            使用图片颜色
+          </label>
+          <label className="flex items-center gap-2 text-xs text-gray-300">
+            <input type="checkbox" checked={image.brightnessDensity} onChange={(e) => update({ brightnessDensity: e.target.checked })} />
+            亮处粒子更密
+          </label>
+          <div className="space-y-1">
+            <div className="flex justify-between text-xs">
+              <span>透明度阈值</span>
+              <span className="text-gray-400">{image.alphaThreshold.toFixed(2)}</span>
+            </div>
+            <input
+              type="range"
+              min="0"
+              max="1"
+              step="0.05"
+              value={image.alphaThreshold}
+              onChange={(e) => update({ alphaThreshold: Number(e.target.value) })}
+              className={rangeClass}
+            />
+          </div>
+          <div className="space-y-1">
+            <div className="flex justify-between text-xs">
+              <span>亮度凸起</span>
+              <span className="text-gray-400">{image.depth}</span>
+            </div>
+            <input
+              type="range"
+              min="0"
+              max="30"
+              step="1"
+              value={image.depth}
+              onChange={(e) => update({ depth: Number(e.target.value) })}
+              className={rangeClass}
+            />
+          </div>
+          <button onClick={() => onChange(undefined)} className={buttonClass}>
+            移除图片
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ImagePanel;
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { ModelTarget } from '../types';
+import { ModelTargetError, checkTargetModel, modelFormatFromName, readFileAsDataUrl } from '../services/effects';
+
+interface ModelPanelProps {
+  model: ModelTarget | undefined;
+  onChange: (model: ModelTarget | undefined) => void;
+}
+
+const buttonClass = "px-3 py-1 text-xs rounded-lg border bg-white/5 border-white/10 text-gray-300 hover:bg-white/10";
+
+const ModelPanel: React.FC<ModelPanelProps> = ({ model, onChange }) => {
+  const [url, setUrl] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  // The format comes from the file name, since data URLs don't carry one
+  const applySource = async (src: string, name: string) => {
+    const format = modelFormatFromName(name);
+    if (!format) {
+      setError('仅支持 OBJ / PLY / glTF / GLB');
+      return;
+    }
+    const next = { sampleColors: true, ...model, src, format };
+    try {
+      await checkTargetModel(next);
+    } catch (failure) {
+      console.error("Failed to load model:", failure);
+      setError(failure instanceof ModelTargetError ? failure.message : '无法读取该模型');
+      return;
+    }
+    setError(null);
+    onChange(next);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      await applySource(await readFileAsDataUrl(file), file.name);
+    } catch (error) {
+      console.error("Failed to read model:", error);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <label className="text-xs font-semibold uppercase tracking-wider text-gray-400">3D 模型变形</label>
+      <label className={`${buttonClass} text-center cursor-pointer`}>
+        上传模型 (OBJ/PLY/GLB)
+        <input type="file" accept=".obj,.ply,.gltf,.glb" onChange={handleFile} className="hidden" />
+      </label>
+      <div className="flex gap-1">
+        <input
+          type="text"
+          value={url}
+          placeholder="./offline/mascot.glb"
+          onChange={(e) => setUrl(e.target.value)}
+          className="flex-1 min-w-0 px-2 py-1 rounded bg-white/5 border border-white/10 text-gray-200 text-xs"
+        />
+        <button onClick={() => url.trim() && applySource(url.trim(), url.trim())} className={buttonClass}>
+          使用
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {model && (
+        <>
+          <label className="flex items-center gap-2 text-xs text-gray-300">
+            <input type="checkbox" checked={model.sampleColors} onChange={(e) => onChange({ ...model, sampleColors: e.target.checked })} />
+            使用模型颜色
+          </label>
+          <button onClick={() => onChange(undefined)} className={buttonClass}>
+            移除模型
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ModelPanel;
@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from 'react';
+import { MusicSettings, Tune, Waveform } from '../types';
+import { MUSIC_PARAMS } from '../services/params';
+import { WAVEFORM_LABELS } from '../services/synth';
+import { HAPPY_BIRTHDAY, TuneError, parseMidi, parseNotation } from '../services/tunes';
+import ParamsPanel from './ParamsPanel';
+
+interface MusicPanelProps {
+  settings: MusicSettings;
+  onChange: (settings: MusicSettings) => void;
+  // The tune to play, or null while the notation can't be read
+  onTuneChange: (tune: Tune | null) => void;
+  onPlay: () => void;
+  onStop: () => void;
+}
+
+const buttonClass = "px-2 py-1 text-xs rounded border bg-white/5 border-white/10 text-gray-300 hover:bg-white/10 disabled:opacity-40";
+
+const MusicPanel: React.FC<MusicPanelProps> = ({ settings, onChange, onTuneChange, onPlay, onStop }) => {
+  const [notation, setNotation] = useState(HAPPY_BIRTHDAY);
+  const [midi, setMidi] = useState<{ name: string; tune: Tune } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [midiError, setMidiError] = useState<string | null>(null);
+
+  // A loaded MIDI file takes the place of the notation until it is removed
+  useEffect(() => {
+    if (midi) {
+      setError(null);
+      onTuneChange(midi.tune);
+      return;
+    }
+    try {
+      onTuneChange(parseNotation(notation));
+      setError(null);
+    } catch (failure) {
+      onTuneChange(null);
+      setError(failure instanceof TuneError ? failure.message : String(failure));
+    }
+  }, [notation, midi, onTuneChange]);
+
+  const handleMidi = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setMidiError(null);
+    try {
+      setMidi({ name: file.name, tune: parseMidi(await file.arrayBuffer()) });
+    } catch (failure) {
+      setMidiError(failure instanceof TuneError ? failure.message : '无法读取 MIDI 文件');
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <label className="text-xs font-semibold uppercase tracking-wider text-gray-400">音乐</label>
+      {midi ? (
+        <div className="flex items-center gap-1 text-xs">
+          <span className="flex-1 truncate text-gray-300" title={midi.name}>🎹 {midi.name}</span>
+          <button onClick={() => setMidi(null)} className="px-1 text-gray-400 hover:text-white" aria-label="移除 MIDI">×</button>
+        </div>
+      ) : (
+        <>
+          <textarea
+            value={notation}
+            onChange={(e) => setNotation(e.target.value)}
+            rows={3}
+            spellCheck={false}
+            className={`w-full px-2 py-1 rounded bg-white/5 border text-gray-200 text-xs font-mono ${error ? 'border-red-500/60' : 'border-white/10'}`}
+          />
+          <p className="text-xs text-gray-500">音符如 C4、D#4/2、E4*2，R 为休止，@120 设定每分钟拍数</p>
+        </>
+      )}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      {midiError && <p className="text-xs text-red-400">{midiError}</p>}
+      <label className={`${buttonClass} text-center cursor-pointer`}>
+        载入 MIDI 文件
+        <input type="file" accept=".mid,.midi,audio/midi" onChange={handleMidi} className="hidden" />
+      </label>
+
+      <select
+        value={settings.waveform}
+        onChange={(e) => onChange({ ...settings, waveform: e.target.value as Waveform })}
+        className="w-full px-2 py-1 rounded bg-white/5 border border-white/10 text-gray-200 text-xs"
+      >
+        {(Object.keys(WAVEFORM_LABELS) as Waveform[]).map(waveform => (
+          <option key={waveform} value={waveform}>{WAVEFORM_LABELS[waveform]}</option>
+        ))}
+      </select>
+      <ParamsPanel
+        title="合成器"
+        schema={MUSIC_PARAMS}
+        values={{ ...settings }}
+        onChange={(values) => onChange({ ...settings, ...values })}
+      />
+      <div className="grid grid-cols-2 gap-2">
+        <button onClick={onPlay} disabled={!!error} className={buttonClass}>▶ 播放</button>
+        <button onClick={onStop} className={buttonClass}>■ 停止</button>
+      </div>
+    </div>
+  );
+};
+
+export default MusicPanel;
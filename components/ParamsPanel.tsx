@@ -0,0 +1,112 @@
+import React, { useEffect, useState } from 'react';
+import { NumberParamSpec, ParamSchema, ParamSpec, ParamValue } from '../types';
+import { paramError, readParams } from '../services/params';
+
+interface ParamsPanelProps {
+  title: string;
+  schema: ParamSchema;
+  values: Record<string, ParamValue> | undefined;
+  onChange: (values: Record<string, ParamValue>) => void;
+}
+
+const resetClass = "px-1 text-gray-400 hover:text-white disabled:opacity-30";
+
+// Slider plus a text field; typed values are only applied once they are valid.
+const NumberControl: React.FC<{ spec: NumberParamSpec; value: number; onChange: (value: number) => void }> = ({ spec, value, onChange }) => {
+  const [draft, setDraft] = useState(String(value));
+  const error = paramError(spec, draft.trim() === '' ? NaN : Number(draft));
+
+  useEffect(() => setDraft(String(value)), [value]);
+
+  return (
+    <div className="space-y-1">
+      <input
+        type="range"
+        min={spec.min}
+        max={spec.max}
+        step={spec.step}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer accent-blue-500"
+      />
+      <input
+        type="text"
+        inputMode="decimal"
+        value={draft}
+        onChange={(e) => {
+          setDraft(e.target.value);
+          const next = Number(e.target.value);
+          if (e.target.value.trim() !== '' && paramError(spec, next) === null) onChange(next);
+        }}
+        onBlur={() => setDraft(String(value))}
+        className={`w-full px-2 py-0.5 rounded bg-white/5 border text-gray-200 text-xs ${error ? 'border-red-500/60' : 'border-white/10'}`}
+      />
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+const ParamControl: React.FC<{ spec: ParamSpec; value: ParamValue; onChange: (value: ParamValue) => void }> = ({ spec, value, onChange }) => {
+  switch (spec.type) {
+    case 'number':
+      return <NumberControl spec={spec} value={value as number} onChange={onChange} />;
+    case 'color':
+      return (
+        <input
+          type="color"
+          value={value as string}
+          onChange={(e) => onChange(e.target.value)}
+          className="w-full h-8 rounded cursor-pointer bg-transparent border-0"
+        />
+      );
+    case 'boolean':
+      return <input type="checkbox" checked={value as boolean} onChange={(e) => onChange(e.target.checked)} />;
+  }
+};
+
+const ParamsPanel: React.FC<ParamsPanelProps> = ({ title, schema, values, onChange }) => {
+  const current = readParams(schema, values);
+  const entries = Object.entries(schema) as [string, ParamSpec][];
+  const groups = Array.from(new Set(entries.map(([, spec]) => spec.group ?? '')));
+  const isDefault = entries.every(([key, spec]) => current[key] === spec.default);
+  const set = (key: string, value: ParamValue) => onChange({ ...current, [key]: value });
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex justify-between items-center">
+        <label className="text-xs font-semibold uppercase tracking-wider text-gray-400">{title}</label>
+        <button
+          onClick={() => onChange(Object.fromEntries(entries.map(([key, spec]) => [key, spec.default])))}
+          disabled={isDefault}
+          className="text-xs text-gray-400 hover:text-white disabled:opacity-30"
+        >
+          全部重置
+        </button>
+      </div>
+
+      {groups.map(group => (
+        <div key={group} className="flex flex-col gap-2">
+          {group && <span className="text-xs text-gray-500">{group}</span>}
+          {entries.filter(([, spec]) => (spec.group ?? '') === group).map(([key, spec]) => (
+            <div key={key} className="space-y-1">
+              <div className="flex justify-between items-center text-xs">
+                <span>{spec.label}</span>
+                <button
+                  onClick={() => set(key, spec.default)}
+                  disabled={current[key] === spec.default}
+                  className={resetClass}
+                  aria-label={`重置${spec.label}`}
+                >
+                  ↺
+                </button>
+              </div>
+              <ParamControl spec={spec} value={current[key]} onChange={(value) => set(key, value)} />
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ParamsPanel;
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { ScenePreset } from '../types';
+import { PresetError, parsePresetDocument, presetToHash, serializePresets, upsertPreset } from '../services/presets';
+import { downloadBlob, timestampedName } from '../services/download';
+
+interface PresetsPanelProps {
+  presets: ScenePreset[];
+  onChange: (presets: ScenePreset[]) => void;
+  // The current scene under the given name
+  capture: (name: string) => ScenePreset;
+  onLoad: (preset: ScenePreset) => void;
+}
+
+const buttonClass = "px-2 py-1 text-xs rounded border bg-white/5 border-white/10 text-gray-300 hover:bg-white/10";
+
+const PresetsPanel: React.FC<PresetsPanelProps> = ({ presets, onChange, capture, onLoad }) => {
+  const [name, setName] = useState('');
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const [shareUrl, setShareUrl] = useState<string | null>(null);
+
+  const save = () => {
+    if (!name.trim()) return;
+    onChange(upsertPreset(presets, capture(name.trim())));
+    setMessage({ text: `已保存「${name.trim()}」`, isError: false });
+    setName('');
+  };
+
+  const share = async (preset: ScenePreset) => {
+    const { hash, omittedUploads } = presetToHash(preset);
+    const url = `${window.location.href.split('#')[0]}${hash}`;
+    setShareUrl(url);
+    let copied = false;
+    try {
+      await navigator.clipboard.writeText(url);
+      copied = true;
+    } catch {
+      // Clipboard access can be denied; the link stays selectable below
+    }
+    const text = copied ? '链接已复制' : '链接已生成，可从下方复制';
+    setMessage({ text: omittedUploads ? `${text}（上传的图片/模型无法放入链接）` : text, isError: false });
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parsePresetDocument(JSON.parse(await file.text()));
+      onChange(imported.reduce(upsertPreset, presets));
+      setMessage({ text: `已导入 ${imported.length} 个预设`, isError: false });
+    } catch (error) {
+      const text = error instanceof PresetError ? error.message : '文件不是有效的 JSON';
+      setMessage({ text: `导入失败：${text}`, isError: true });
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <label className="text-xs font-semibold uppercase tracking-wider text-gray-400">场景预设</label>
+      <div className="flex gap-1">
+        <input
+          type="text"
+          value={name}
+          placeholder="预设名称"
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && save()}
+          className="flex-1 min-w-0 px-2 py-1 rounded bg-white/5 border border-white/10 text-gray-200 text-xs"
+        />
+        <button onClick={save} disabled={!name.trim()} className={`${buttonClass} disabled:opacity-40`}>
+          保存
+        </button>
+      </div>
+
+      {presets.map(preset => (
+        <div key={preset.name} className="flex items-center gap-1 text-xs">
+          <span className="flex-1 truncate text-gray-300" title={preset.name}>{preset.name}</span>
+          <button onClick={() => onLoad(preset)} className={buttonClass}>载入</button>
+          <button onClick={() => share(preset)} className={buttonClass}>分享</button>
+          <button
+            onClick={() => onChange(presets.filter(other => other.name !== preset.name))}
+            className="px-1 text-gray-400 hover:text-white"
+            aria-label="删除预设"
+          >
+            ×
+          </button>
+        </div>
+      ))}
+
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          onClick={() => downloadBlob(new Blob([serializePresets(presets)], { type: 'application/json' }), timestampedName('presets', 'json'))}
+          disabled={presets.length === 0}
+          className={`${buttonClass} disabled:opacity-40`}
+        >
+          导出全部
+        </button>
+        <label className={`${buttonClass} text-center cursor-pointer`}>
+          导入
+          <input type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+        </label>
+      </div>
+
+      {message && <p className={`text-xs ${message.isError ? 'text-red-400' : 'text-gray-400'}`}>{message.text}</p>}
+      {shareUrl && (
+        <input
+          type="text"
+          readOnly
+          value={shareUrl}
+          onFocus={(e) => e.target.select()}
+          className="w-full px-2 py-1 rounded bg-white/5 border border-white/10 text-gray-400 text-xs"
+        />
+      )}
+    </div>
+  );
+};
+
+export default PresetsPanel;
@@ -0,0 +1,120 @@
+import React, { useRef, useState } from 'react';
+import { FrameOutput, OfflineRenderSettings, RenderFramesOptions } from '../types';
+import { canWriteToDirectory } from '../services/frameSequence';
+import { ZipLimitError } from '../services/zip';
+
+interface RecordPanelProps {
+  isRecording: boolean;
+  onToggleRecording: () => void;
+  onRenderFrames: (settings: OfflineRenderSettings, output: FrameOutput, options: RenderFramesOptions) => Promise<number>;
+}
+
+const RESOLUTIONS = [
+  { label: '720p', width: 1280, height: 720 },
+  { label: '1080p', width: 1920, height: 1080 },
+  { label: '4K', width: 3840, height: 2160 },
+  { label: '竖屏 1080×1920', width: 1080, height: 1920 },
+  { label: '方形 1080×1080', width: 1080, height: 1080 }
+];
+
+const FRAME_RATES = [24, 30, 60];
+
+const selectClass = "w-full px-2 py-1 rounded bg-white/5 border border-white/10 text-gray-200 text-xs";
+const buttonClass = "px-3 py-2 text-sm rounded-lg border bg-white/5 border-white/10 text-gray-300 hover:bg-white/10 disabled:opacity-40";
+
+const RecordPanel: React.FC<RecordPanelProps> = ({ isRecording, onToggleRecording, onRenderFrames }) => {
+  const [resolution, setResolution] = useState(1);
+  const [fps, setFps] = useState(30);
+  const [duration, setDuration] = useState(5);
+  const [fromStart, setFromStart] = useState(true);
+  const [output, setOutput] = useState<FrameOutput>('zip');
+  const [progress, setProgress] = useState<{ rendered: number; total: number } | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const render = async () => {
+    const { width, height } = RESOLUTIONS[resolution];
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setMessage(null);
+    setProgress({ rendered: 0, total: Math.round(duration * fps) });
+    try {
+      const rendered = await onRenderFrames(
+        { width, height, fps, duration, fromStart },
+        output,
+        { signal: controller.signal, onProgress: (done, total) => setProgress({ rendered: done, total }) }
+      );
+      setMessage(`已渲染 ${rendered} 帧`);
+    } catch (error) {
+      // Closing the folder picker is not an error worth showing
+      if (!(error instanceof DOMException && error.name === 'AbortError')) {
+        console.error("Offline render failed:", error);
+        setMessage(error instanceof ZipLimitError ? error.message : '渲染失败');
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <label className="text-xs font-semibold uppercase tracking-wider text-gray-400">录制</label>
+      <button onClick={onToggleRecording} disabled={!!progress} className={buttonClass}>
+        {isRecording ? '■ 停止录制' : '● 实时录制 (WebM)'}
+      </button>
+
+      <span className="text-xs text-gray-500">离线逐帧渲染</span>
+      <div className="grid grid-cols-2 gap-2">
+        <select value={resolution} onChange={(e) => setResolution(Number(e.target.value))} className={selectClass}>
+          {RESOLUTIONS.map((option, index) => (
+            <option key={option.label} value={index}>{option.label}</option>
+          ))}
+        </select>
+        <select value={fps} onChange={(e) => setFps(Number(e.target.value))} className={selectClass}>
+          {FRAME_RATES.map(rate => (
+            <option key={rate} value={rate}>{rate} fps</option>
+          ))}
+        </select>
+      </div>
+      <label className="flex items-center gap-2 text-xs text-gray-300">
+        时长 (秒)
+        <input
+          type="number"
+          min="0.1"
+          max="120"
+          step="0.5"
+          value={duration}
+          onChange={(e) => setDuration(Math.min(120, Math.max(0.1, Number(e.target.value) || 0.1)))}
+          className="flex-1 min-w-0 px-2 py-1 rounded bg-white/5 border border-white/10 text-gray-200"
+        />
+      </label>
+      <select value={output} onChange={(e) => setOutput(e.target.value as FrameOutput)} className={selectClass}>
+        <option value="zip">ZIP 压缩包</option>
+        <option value="png" disabled={!canWriteToDirectory()}>PNG 序列 (写入文件夹)</option>
+      </select>
+      <label className="flex items-center gap-2 text-xs text-gray-300">
+        <input type="checkbox" checked={fromStart} onChange={(e) => setFromStart(e.target.checked)} />
+        从特效开头渲染
+      </label>
+
+      {progress ? (
+        <div className="space-y-1">
+          <div className="flex justify-between text-xs">
+            <span>渲染中…</span>
+            <span className="text-gray-400">{progress.rendered} / {progress.total}</span>
+          </div>
+          <div className="w-full h-1 bg-white/20 rounded-lg overflow-hidden">
+            <div className="h-full bg-blue-500" style={{ width: `${(progress.rendered / Math.max(1, progress.total)) * 100}%` }} />
+          </div>
+          <button onClick={() => abortRef.current?.abort()} className={`${buttonClass} w-full`}>取消</button>
+        </div>
+      ) : (
+        <button onClick={render} disabled={isRecording} className={buttonClass}>渲染帧序列</button>
+      )}
+      {message && <p className="text-xs text-gray-400">{message}</p>}
+    </div>
+  );
+};
+
+export default RecordPanel;
@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from 'react';
+import { SnapshotBackground, SnapshotSettings } from '../types';
+
+interface SnapshotPanelProps {
+  // The webcam is running, so a photo booth snapshot can be composited
+  canUseWebcam: boolean;
+  onSnapshot: (settings: SnapshotSettings) => Promise<void>;
+}
+
+const SCALES = [1, 2, 4, 8];
+
+const BACKGROUND_LABELS: Record<SnapshotBackground, string> = {
+  scene: '黑色背景',
+  transparent: '透明背景',
+  webcam: '拍照亭 (合成摄像头画面)'
+};
+
+// Seconds to pose before a photo booth snapshot
+const PHOTO_BOOTH_COUNTDOWN = 3;
+
+const selectClass = "w-full px-2 py-1 rounded bg-white/5 border border-white/10 text-gray-200 text-xs";
+const buttonClass = "px-3 py-2 text-sm rounded-lg border bg-white/5 border-white/10 text-gray-300 hover:bg-white/10 disabled:opacity-40";
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const SnapshotPanel: React.FC<SnapshotPanelProps> = ({ canUseWebcam, onSnapshot }) => {
+  const [scale, setScale] = useState(2);
+  const [background, setBackground] = useState<SnapshotBackground>('scene');
+  const [countdown, setCountdown] = useState<number | null>(null);
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [windowSize, setWindowSize] = useState({ width: window.innerWidth, height: window.innerHeight });
+
+  useEffect(() => {
+    const handleResize = () => setWindowSize({ width: window.innerWidth, height: window.innerHeight });
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  const needsWebcam = background === 'webcam' && !canUseWebcam;
+
+  const capture = async () => {
+    setIsCapturing(true);
+    setMessage(null);
+    try {
+      if (background === 'webcam') {
+        for (let remaining = PHOTO_BOOTH_COUNTDOWN; remaining > 0; remaining--) {
+          setCountdown(remaining);
+          await wait(1000);
+        }
+        setCountdown(null);
+      }
+      await onSnapshot({ scale, background });
+    } catch (error) {
+      console.error("Snapshot failed:", error);
+      setMessage('截图失败');
+    } finally {
+      setCountdown(null);
+      setIsCapturing(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <label className="text-xs font-semibold uppercase tracking-wider text-gray-400">截图</label>
+      <select value={scale} onChange={(e) => setScale(Number(e.target.value))} className={selectClass}>
+        {SCALES.map(option => (
+          <option key={option} value={option}>
+            窗口 ×{option} ({Math.round(windowSize.width * option)}×{Math.round(windowSize.height * option)})
+          </option>
+        ))}
+      </select>
+      <select value={background} onChange={(e) => setBackground(e.target.value as SnapshotBackground)} className={selectClass}>
+        {(Object.keys(BACKGROUND_LABELS) as SnapshotBackground[]).map(option => (
+          <option key={option} value={option}>{BACKGROUND_LABELS[option]}</option>
+        ))}
+      </select>
+      {needsWebcam && <p className="text-xs text-gray-500">拍照亭需要先开启摄像头</p>}
+      <button onClick={capture} disabled={isCapturing || needsWebcam} className={buttonClass}>
+        {countdown !== null ? `${countdown}…` : '保存截图 (PNG)'}
+      </button>
+      {message && <p className="text-xs text-gray-400">{message}</p>}
+    </div>
+  );
+};
+
+export default SnapshotPanel;
@@ -0,0 +1,106 @@
+import React from 'react';
+import { TextAlign, TextStyle } from '../types';
+import { DEFAULT_TEXT_STYLE, TEXT_STYLE_RANGES } from '../services/effects';
+
+interface TextPanelProps {
+  // Message the active effect shows when none is configured
+  defaultText: string;
+  text: Partial<TextStyle> | undefined;
+  onChange: (text: Partial<TextStyle> | undefined) => void;
+}
+
+const FONT_OPTIONS = [
+  { value: DEFAULT_TEXT_STYLE.fontFamily, label: '微软雅黑' },
+  { value: '"PingFang SC", sans-serif', label: '苹方' },
+  { value: '"Songti SC", "SimSun", serif', label: '宋体' },
+  { value: '"Kaiti SC", "KaiTi", serif', label: '楷体' },
+  { value: 'Georgia, serif', label: 'Serif' },
+  { value: '"Courier New", monospace', label: 'Monospace' }
+];
+
+const WEIGHT_OPTIONS = [
+  { value: 'normal', label: '常规' },
+  { value: 'bold', label: '粗体' },
+  { value: '900', label: '特粗' }
+];
+
+const ALIGN_OPTIONS: { value: TextAlign; label: string }[] = [
+  { value: 'left', label: '左' },
+  { value: 'center', label: '中' },
+  { value: 'right', label: '右' }
+];
+
+const selectClass = "w-full px-1 py-1 rounded bg-white/5 border border-white/10 text-gray-200 text-xs";
+const rangeClass = "w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer accent-blue-500";
+
+const TextPanel: React.FC<TextPanelProps> = ({ defaultText, text, onChange }) => {
+  const style: TextStyle = { ...DEFAULT_TEXT_STYLE, content: defaultText, ...text };
+  const update = (patch: Partial<TextStyle>) => onChange({ ...text, ...patch });
+
+  const slider = (label: string, key: keyof typeof TEXT_STYLE_RANGES, step: number) => (
+    <div className="space-y-1">
+      <div className="flex justify-between text-xs">
+        <span>{label}</span>
+        <span className="text-gray-400">{Number(style[key].toFixed(2))}</span>
+      </div>
+      <input
+        type="range"
+        min={TEXT_STYLE_RANGES[key][0]}
+        max={TEXT_STYLE_RANGES[key][1]}
+        step={step}
+        value={style[key]}
+        onChange={(e) => update({ [key]: Number(e.target.value) })}
+        className={rangeClass}
+      />
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col gap-2">
+      <label className="text-xs font-semibold uppercase tracking-wider text-gray-400">文字内容</label>
+      <textarea
+        value={text?.content ?? ''}
+        placeholder={defaultText}
+        rows={2}
+        onChange={(e) => update({ content: e.target.value })}
+        className="w-full px-2 py-1 rounded bg-white/5 border border-white/10 text-gray-200 text-xs resize-y"
+      />
+      <div className="grid grid-cols-2 gap-1">
+        <select value={style.fontFamily} onChange={(e) => update({ fontFamily: e.target.value })} className={selectClass}>
+          {FONT_OPTIONS.map(({ value, label }) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+        <select value={style.fontWeight} onChange={(e) => update({ fontWeight: e.target.value })} className={selectClass}>
+          {WEIGHT_OPTIONS.map(({ value, label }) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      </div>
+      <div className="grid grid-cols-3 gap-1">
+        {ALIGN_OPTIONS.map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => update({ align: value })}
+            className={`px-2 py-1 text-xs rounded border ${
+              style.align === value ? 'bg-blue-600 border-blue-500 text-white' : 'bg-white/5 border-white/10 text-gray-300 hover:bg-white/10'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      {slider('字号', 'fontSize', 4)}
+      {slider('字间距', 'letterSpacing', 1)}
+      {slider('行距', 'lineHeight', 0.1)}
+      <button
+        onClick={() => onChange(undefined)}
+        className="px-3 py-1 text-xs rounded-lg border bg-white/5 border-white/10 text-gray-300 hover:bg-white/10"
+      >
+        恢复默认
+      </button>
+    </div>
+  );
+};
+
+export default TextPanel;
@@ -0,0 +1,185 @@
+import React, { useEffect, useState } from 'react';
+import { EasingName, MorphKeyframe, MorphShape, MorphTimeline, TimelinePosition } from '../types';
+import { DEFAULT_TIMELINE } from '../services/effects';
+import { EASING_LABELS } from '../services/timeline';
+
+interface TimelinePanelProps {
+  timeline: MorphTimeline | undefined;
+  onChange: (timeline: MorphTimeline | undefined) => void;
+  // Polled every animation frame to drive the scrubber
+  getPosition: () => TimelinePosition | null;
+  onSeek: (time: number) => void;
+  onJump: (index: number) => void;
+}
+
+const SHAPE_LABELS: Record<MorphShape, string> = {
+  galaxy: '星系',
+  sphere: '球体',
+  heart: '爱心',
+  text: '文字',
+  image: '图片',
+  model: '3D 模型'
+};
+
+const selectClass = "w-full px-1 py-1 rounded bg-white/5 border border-white/10 text-gray-200 text-xs";
+const buttonClass = "px-2 py-1 text-xs rounded border bg-white/5 border-white/10 text-gray-300 hover:bg-white/10";
+
+const createKeyframeId = () => `keyframe-${Date.now().toString(36)}-${Math.floor(Math.random() * 1e6).toString(36)}`;
+
+const TimelinePanel: React.FC<TimelinePanelProps> = ({ timeline, onChange, getPosition, onSeek, onJump }) => {
+  const current = timeline?.keyframes.length ? timeline : DEFAULT_TIMELINE;
+  const [position, setPosition] = useState<TimelinePosition | null>(null);
+
+  useEffect(() => {
+    let frameId: number;
+    const poll = () => {
+      setPosition(getPosition());
+      frameId = requestAnimationFrame(poll);
+    };
+    poll();
+    return () => cancelAnimationFrame(frameId);
+  }, [getPosition]);
+
+  const setKeyframes = (keyframes: MorphKeyframe[]) => onChange({ ...current, keyframes });
+  const update = (id: string, patch: Partial<MorphKeyframe>) =>
+    setKeyframes(current.keyframes.map(keyframe => (keyframe.id === id ? { ...keyframe, ...patch } : keyframe)));
+  const move = (index: number, offset: number) => {
+    const keyframes = [...current.keyframes];
+    const [keyframe] = keyframes.splice(index, 1);
+    keyframes.splice(index + offset, 0, keyframe);
+    setKeyframes(keyframes);
+  };
+
+  const number = (keyframe: MorphKeyframe, key: 'transition' | 'hold', label: string) => (
+    <label className="flex items-center gap-1 text-xs text-gray-400">
+      {label}
+      <input
+        type="number"
+        min="0"
+        step="0.5"
+        value={keyframe[key]}
+        onChange={(e) => update(keyframe.id, { [key]: Math.max(0, Number(e.target.value)) })}
+        className="w-full min-w-0 px-1 py-0.5 rounded bg-white/5 border border-white/10 text-gray-200"
+      />
+    </label>
+  );
+
+  return (
+    <div className="flex flex-col gap-2">
+      <label className="text-xs font-semibold uppercase tracking-wider text-gray-400">变形时间轴</label>
+
+      {position && (
+        <div className="space-y-1">
+          <div className="flex justify-between text-xs">
+            <span>进度</span>
+            <span className="text-gray-400">{position.time.toFixed(1)}s / {position.duration.toFixed(1)}s</span>
+          </div>
+          <input
+            type="range"
+            min="0"
+            max={position.duration}
+            step="0.05"
+            value={position.time}
+            onChange={(e) => onSeek(Number(e.target.value))}
+            className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer accent-blue-500"
+          />
+        </div>
+      )}
+
+      {current.keyframes.map((keyframe, index) => (
+        <div
+          key={keyframe.id}
+          className={`flex flex-col gap-1 p-2 rounded-lg border ${
+            position?.keyframe === index ? 'bg-blue-600/20 border-blue-500/50' : 'bg-white/5 border-white/10'
+          }`}
+        >
+          <div className="flex gap-1">
+            <button onClick={() => onJump(index)} className={buttonClass} aria-label="跳到此关键帧">
+              {index + 1}
+            </button>
+            <select
+              value={keyframe.shape}
+              onChange={(e) => update(keyframe.id, { shape: e.target.value as MorphShape })}
+              className={selectClass}
+            >
+              {Object.entries(SHAPE_LABELS).map(([shape, label]) => (
+                <option key={shape} value={shape}>{label}</option>
+              ))}
+            </select>
+            <button onClick={() => move(index, -1)} disabled={index === 0} className={`${buttonClass} disabled:opacity-40`} aria-label="上移">↑</button>
+            <button
+              onClick={() => setKeyframes(current.keyframes.filter(other => other.id !== keyframe.id))}
+              disabled={current.keyframes.length === 1}
+              className="px-2 text-gray-400 hover:text-white disabled:opacity-40"
+              aria-label="删除关键帧"
+            >
+              ×
+            </button>
+          </div>
+          <div className="grid grid-cols-2 gap-1">
+            {number(keyframe, 'transition', '过渡')}
+            {number(keyframe, 'hold', '停留')}
+          </div>
+          <select
+            value={keyframe.easing}
+            onChange={(e) => update(keyframe.id, { easing: e.target.value as EasingName })}
+            className={selectClass}
+          >
+            {Object.entries(EASING_LABELS).map(([easing, label]) => (
+              <option key={easing} value={easing}>{label}</option>
+            ))}
+          </select>
+          <div className="flex items-center gap-2 text-xs text-gray-400">
+            <span>错落</span>
+            <input
+              type="range"
+              min="0"
+              max="0.9"
+              step="0.05"
+              value={keyframe.stagger}
+              onChange={(e) => update(keyframe.id, { stagger: Number(e.target.value) })}
+              className="flex-1 h-1 bg-white/20 rounded-lg appearance-none cursor-pointer accent-blue-500"
+            />
+          </div>
+          <label className="flex items-center gap-2 text-xs text-gray-300">
+            <input
+              type="checkbox"
+              checked={keyframe.color !== undefined}
+              onChange={(e) => update(keyframe.id, { color: e.target.checked ? '#ffffff' : undefined })}
+            />
+            统一颜色
+            {keyframe.color !== undefined && (
+              <input
+                type="color"
+                value={keyframe.color}
+                onChange={(e) => update(keyframe.id, { color: e.target.value })}
+                className="h-5 flex-1 rounded cursor-pointer bg-transparent border-0"
+              />
+            )}
+          </label>
+        </div>
+      ))}
+
+      <label className="flex items-center gap-2 text-xs text-gray-300">
+        <input type="checkbox" checked={current.loop} onChange={(e) => onChange({ ...current, loop: e.target.checked })} />
+        循环播放
+      </label>
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          onClick={() => setKeyframes([...current.keyframes, { id: createKeyframeId(), shape: 'galaxy', transition: 2, hold: 2, easing: 'easeInOut', stagger: 0.3 }])}
+          className="px-3 py-1 text-xs rounded-lg border bg-white/5 border-white/10 text-gray-300 hover:bg-white/10"
+        >
+          + 添加
+        </button>
+        <button
+          onClick={() => onChange(undefined)}
+          className="px-3 py-1 text-xs rounded-lg border bg-white/5 border-white/10 text-gray-300 hover:bg-white/10"
+        >
+          恢复默认
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TimelinePanel;
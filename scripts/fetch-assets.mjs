@@ -0,0 +1,48 @@
+// Collects everything in assets.manifest.json into public/offline so the
+// build runs without a network. WASM is copied from node_modules; models and
+// Tailwind are downloaded once and reused on later builds.
+import { cp, mkdir, readFile, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+const root = path.resolve(path.dirname(new URL(import.meta.url).pathname), '..');
+const outDir = path.join(root, 'public', 'offline');
+const manifest = JSON.parse(await readFile(path.join(root, 'assets.manifest.json'), 'utf8'));
+
+const exists = async (file) => {
+  try {
+    await stat(file);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const failed = [];
+
+for (const [key, asset] of Object.entries(manifest)) {
+  const target = path.join(outDir, asset.path);
+  if (await exists(asset.probe ? path.join(target, asset.probe) : target)) {
+    console.log(`✓ ${key} (cached)`);
+    continue;
+  }
+
+  try {
+    await mkdir(path.dirname(target), { recursive: true });
+    if (asset.copyFrom) {
+      await cp(path.join(root, asset.copyFrom), target, { recursive: true });
+    } else {
+      const response = await fetch(asset.remote);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      await writeFile(target, Buffer.from(await response.arrayBuffer()));
+    }
+    console.log(`✓ ${key}`);
+  } catch (error) {
+    console.error(`✗ ${key}: ${asset.copyFrom ?? asset.remote} (${error.message})`);
+    failed.push(key);
+  }
+}
+
+if (failed.length > 0) {
+  console.error(`\nMissing offline assets: ${failed.join(', ')}. Run again with network access.`);
+  process.exit(1);
+}
@@ -0,0 +1,88 @@
+import manifest from '../assets.manifest.json';
+
+// Static assets (vision models, WASM, Tailwind) are served from
+// ASSET_BASE_URL, filled by `npm run assets`. The original CDNs are only
+// tried as a fallback, and can be switched off entirely for offline venues.
+
+export interface AssetEntry {
+  label: string;
+  // Relative to ASSET_BASE_URL
+  path: string;
+  // File checked for directory assets such as the WASM fileset
+  probe?: string;
+  remote: string;
+}
+
+export type AssetKey = keyof typeof manifest;
+
+export const ASSET_MANIFEST: Record<AssetKey, AssetEntry> = manifest;
+
+const ASSET_BASE_URL = (process.env.ASSET_BASE_URL || './offline/').replace(/\/?$/, '/');
+const REMOTE_FALLBACK = process.env.ASSET_REMOTE_FALLBACK !== 'false';
+
+export class AssetLoadError extends Error {
+  constructor(public readonly asset: AssetKey, public readonly attempted: string[]) {
+    super(`Failed to load ${ASSET_MANIFEST[asset].label} (${attempted.join(', ')})`);
+    this.name = 'AssetLoadError';
+  }
+}
+
+type AssetErrorListener = (error: AssetLoadError) => void;
+const errorListeners = new Set<AssetErrorListener>();
+const failedAssets = new Map<AssetKey, AssetLoadError>();
+
+// Subscribe to load failures; returns an unsubscribe function.
+export const onAssetError = (listener: AssetErrorListener) => {
+  errorListeners.add(listener);
+  return () => {
+    errorListeners.delete(listener);
+  };
+};
+
+export const getAssetErrors = () => Array.from(failedAssets.values());
+
+const reportAssetError = (error: AssetLoadError) => {
+  console.error(error.message);
+  failedAssets.set(error.asset, error);
+  errorListeners.forEach(listener => listener(error));
+};
+
+export const assetCandidates = (key: AssetKey) => {
+  const { path, remote } = ASSET_MANIFEST[key];
+  const local = new URL(path, new URL(ASSET_BASE_URL, document.baseURI)).href;
+  return REMOTE_FALLBACK ? [local, remote] : [local];
+};
+
+// None of the assets is a web page, so an HTML answer is a dev server or host
+// falling back to index.html for a file that isn't there.
+const isReachable = async (url: string) => {
+  try {
+    const response = await fetch(url, { method: 'HEAD' });
+    return response.ok && !response.headers.get('content-type')?.includes('text/html');
+  } catch {
+    return false;
+  }
+};
+
+const resolved = new Map<AssetKey, Promise<string>>();
+
+// First candidate URL that answers, cached per asset. Rejects with an
+// AssetLoadError (and reports it) when none does.
+export const resolveAsset = (key: AssetKey): Promise<string> => {
+  let pending = resolved.get(key);
+  if (!pending) {
+    pending = (async () => {
+      const { probe } = ASSET_MANIFEST[key];
+      const candidates = assetCandidates(key);
+      for (const url of candidates) {
+        if (await isReachable(probe ? `${url}/${probe}` : url)) return url;
+      }
+      const error = new AssetLoadError(key, candidates);
+      resolved.delete(key);
+      reportAssetError(error);
+      throw error;
+    })();
+    resolved.set(key, pending);
+  }
+  return pending;
+};
@@ -0,0 +1,137 @@
+import { AudioFeatures, AudioInput } from '../types';
+import { getAudioContext } from './audioContext';
+
+// Frequency ranges in Hz
+const BANDS = {
+  bass: [20, 250],
+  mid: [250, 2000],
+  treble: [2000, 8000]
+} as const;
+
+const FFT_SIZE = 2048;
+const SMOOTHING = 0.8;
+// RMS of ordinary music sits well below 1
+const LEVEL_GAIN = 3;
+// A beat is bass energy this far above its recent average...
+const BEAT_RATIO = 1.35;
+const BEAT_MIN_ENERGY = 0.15;
+// ...at most this often, in seconds
+const BEAT_COOLDOWN = 0.25;
+// Time constant of the recent bass average, in seconds
+const BEAT_HISTORY = 1;
+
+export const SILENCE: AudioFeatures = { bass: 0, mid: 0, treble: 0, level: 0, beat: false };
+
+// Microphone or audio file input through an AnalyserNode, reduced to a few
+// features effects can react to. Analysis is real-time, so offline renders
+// see whatever is playing while they run.
+export class AudioAnalyser {
+  private context: AudioContext | null = null;
+  private analyser: AnalyserNode | null = null;
+  private source: AudioNode | null = null;
+  private stream: MediaStream | null = null;
+  private element: HTMLAudioElement | null = null;
+  private input: AudioInput = 'none';
+  private spectrum = new Uint8Array(FFT_SIZE / 2);
+  private waveform = new Uint8Array(FFT_SIZE);
+  private bassAverage = 0;
+  private lastSample: number | null = null;
+  private lastBeat = -Infinity;
+
+  public getInput() {
+    return this.input;
+  }
+
+  // Analyses without playing back, which would feed the microphone back into itself.
+  public async listenToMicrophone() {
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    this.stop();
+    const { context } = this.ensureGraph();
+    this.stream = stream;
+    this.connect(context.createMediaStreamSource(stream), 'microphone');
+  }
+
+  // Loops the file and plays it while analysing.
+  public async playFile(file: File) {
+    this.stop();
+    const { context, analyser } = this.ensureGraph();
+    const element = new Audio(URL.createObjectURL(file));
+    element.loop = true;
+    this.element = element;
+    const source = context.createMediaElementSource(element);
+    analyser.connect(context.destination);
+    this.connect(source, 'file');
+    try {
+      await element.play();
+    } catch (error) {
+      this.stop();
+      throw error;
+    }
+  }
+
+  public stop() {
+    this.source?.disconnect();
+    this.source = null;
+    this.analyser?.disconnect();
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.stream = null;
+    if (this.element) {
+      this.element.pause();
+      URL.revokeObjectURL(this.element.src);
+      this.element = null;
+    }
+    this.input = 'none';
+    this.bassAverage = 0;
+    this.lastSample = null;
+  }
+
+  // Reads the current spectrum. Called once per simulation step.
+  public sample(): AudioFeatures {
+    if (!this.analyser || !this.context || this.input === 'none') return SILENCE;
+    this.analyser.getByteFrequencyData(this.spectrum);
+    this.analyser.getByteTimeDomainData(this.waveform);
+
+    const binWidth = this.context.sampleRate / FFT_SIZE;
+    const band = ([low, high]: readonly [number, number]) => {
+      const start = Math.max(1, Math.floor(low / binWidth));
+      const end = Math.min(this.spectrum.length, Math.ceil(high / binWidth));
+      let sum = 0;
+      for (let i = start; i < end; i++) sum += this.spectrum[i];
+      return end > start ? sum / (end - start) / 255 : 0;
+    };
+    const bass = band(BANDS.bass);
+
+    let squares = 0;
+    for (let i = 0; i < this.waveform.length; i++) {
+      const value = (this.waveform[i] - 128) / 128;
+      squares += value * value;
+    }
+    const level = Math.min(1, Math.sqrt(squares / this.waveform.length) * LEVEL_GAIN);
+
+    // Beats are paced in real time, however fast the simulation runs
+    const now = performance.now() / 1000;
+    const elapsed = this.lastSample === null ? 0 : now - this.lastSample;
+    this.lastSample = now;
+    const beat = bass > BEAT_MIN_ENERGY && bass > this.bassAverage * BEAT_RATIO && now - this.lastBeat > BEAT_COOLDOWN;
+    if (beat) this.lastBeat = now;
+    this.bassAverage += (bass - this.bassAverage) * (1 - Math.exp(-elapsed / BEAT_HISTORY));
+
+    return { bass, mid: band(BANDS.mid), treble: band(BANDS.treble), level, beat };
+  }
+
+  private ensureGraph() {
+    if (!this.context || !this.analyser) {
+      this.context = getAudioContext();
+      this.analyser = this.context.createAnalyser();
+      this.analyser.fftSize = FFT_SIZE;
+      this.analyser.smoothingTimeConstant = SMOOTHING;
+    }
+    return { context: this.context, analyser: this.analyser };
+  }
+
+  private connect(source: AudioNode, input: AudioInput) {
+    source.connect(this.analyser!);
+    this.source = source;
+    this.input = input;
+  }
+}
@@ -0,0 +1,13 @@
+// The app's one AudioContext, shared by the synth and the audio analyser.
+// Browsers cap how many can be open, and each one holds an audio thread.
+let context: AudioContext | null = null;
+
+// Created on first use, which should follow a user gesture so it may start.
+export const getAudioContext = () => {
+  if (!context) {
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+    context = new AudioContextClass();
+  }
+  if (context.state === 'suspended') context.resume();
+  return context;
+};
@@ -0,0 +1,163 @@
+import { BindingAction, BindingSource, EffectId, EffectTrigger, EffectType, GestureType, InputBinding, ObjectThresholds } from '../types';
+import { GESTURE_LABELS } from './gestures';
+import { getEffectDefinition } from './effects';
+import { DEFAULT_OBJECT_THRESHOLD, OBJECT_LABELS } from './objectInput';
+import { FACE_EXPRESSION_LABELS } from './faceInput';
+
+const STORAGE_KEY = 'particle-fx:bindings';
+const THRESHOLDS_STORAGE_KEY = 'particle-fx:object-thresholds';
+
+// Matches the behaviour the creative effects shipped with.
+export const DEFAULT_BINDINGS: InputBinding[] = [
+  { id: 'victory-text', source: { kind: 'gesture', gesture: GestureType.VICTORY }, action: { type: 'trigger', trigger: 'morph' }, effect: EffectType.CREATIVE_TEXT },
+  { id: 'fist-firework', source: { kind: 'gesture', gesture: GestureType.FIST }, action: { type: 'trigger', trigger: 'firework' }, effect: EffectType.CREATIVE_HEART_FIREWORK },
+  { id: 'heart-hands-galaxy', source: { kind: 'gesture', gesture: GestureType.HEART_HANDS }, action: { type: 'switchEffect', effect: EffectType.CREATIVE_HEART_FIREWORK }, effect: EffectType.GALAXY },
+  { id: 'cat-cake', source: { kind: 'object', category: 'cat' }, action: { type: 'trigger', trigger: 'morph' }, effect: EffectType.CREATIVE_CAT_CAKE },
+  { id: 'smile-firework', source: { kind: 'face', expression: 'smile' }, action: { type: 'trigger', trigger: 'firework' }, effect: EffectType.CREATIVE_HEART_FIREWORK }
+];
+
+// Every category the object detector knows
+export const BINDABLE_OBJECTS = Object.keys(OBJECT_LABELS);
+
+export const OBJECT_THRESHOLD_RANGE = [0.2, 0.95];
+
+export const TRIGGER_LABELS: Record<EffectTrigger, string> = {
+  morph: '变形',
+  firework: '发射烟花'
+};
+
+export const ACTION_LABELS: Record<BindingAction['type'], string> = {
+  switchEffect: '切换特效',
+  trigger: '触发效果',
+  playMusic: '播放音乐',
+  stopMusic: '停止音乐',
+  setColor: '更换颜色',
+  screenshot: '截图',
+  jumpToKeyframe: '跳到关键帧'
+};
+
+export const describeSource = (source: BindingSource) =>
+  source.kind === 'gesture' ? GESTURE_LABELS[source.gesture]
+    : source.kind === 'face' ? FACE_EXPRESSION_LABELS[source.expression]
+    : `📷 ${OBJECT_LABELS[source.category] ?? source.category}`;
+
+export const sameSource = (a: BindingSource, b: BindingSource) =>
+  a.kind === 'gesture' && b.kind === 'gesture' ? a.gesture === b.gesture
+    : a.kind === 'object' && b.kind === 'object' ? a.category === b.category
+    : a.kind === 'face' && b.kind === 'face' ? a.expression === b.expression
+    : false;
+
+const appliesTo = (binding: InputBinding, effect: EffectId) => binding.effect === undefined || binding.effect === effect;
+
+// Bindings that apply to a source while `effect` is running.
+export const findBindings = (bindings: InputBinding[], source: BindingSource, effect: EffectId) =>
+  bindings.filter(binding => sameSource(binding.source, source) && appliesTo(binding, effect));
+
+// Vision pipelines the bindings need while `effect` is running.
+export const requiredVision = (bindings: InputBinding[], effect: EffectId) => {
+  const relevant = bindings.filter(binding => appliesTo(binding, effect));
+  return {
+    hand: relevant.some(binding => binding.source.kind === 'gesture'),
+    object: relevant.some(binding => binding.source.kind === 'object'),
+    face: relevant.some(binding => binding.source.kind === 'face')
+  };
+};
+
+// Object categories the bindings listen for: all of them, or only those that
+// apply while `effect` is running.
+export const boundObjects = (bindings: InputBinding[], effect?: EffectId) =>
+  Array.from(new Set(bindings.flatMap(binding =>
+    binding.source.kind === 'object' && (effect === undefined || appliesTo(binding, effect)) ? [binding.source.category] : []
+  ))).sort();
+
+export const objectThreshold = (thresholds: ObjectThresholds, category: string) =>
+  thresholds[category] ?? DEFAULT_OBJECT_THRESHOLD;
+
+export const createBindingId = () => `binding-${Date.now().toString(36)}-${Math.floor(Math.random() * 1e6).toString(36)}`;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isValidSource = (source: unknown): source is BindingSource => {
+  if (!isObject(source)) return false;
+  switch (source.kind) {
+    case 'gesture':
+      return Object.values<unknown>(GestureType).includes(source.gesture);
+    case 'object':
+      return typeof source.category === 'string' && BINDABLE_OBJECTS.includes(source.category);
+    case 'face':
+      return typeof source.expression === 'string' && source.expression in FACE_EXPRESSION_LABELS;
+    default:
+      return false;
+  }
+};
+
+const isValidAction = (action: unknown): action is BindingAction => {
+  if (!isObject(action)) return false;
+  switch (action.type) {
+    case 'switchEffect':
+      return typeof action.effect === 'string' && !!getEffectDefinition(action.effect);
+    case 'trigger':
+      return typeof action.trigger === 'string' && action.trigger in TRIGGER_LABELS;
+    case 'setColor':
+      return typeof action.color === 'string';
+    case 'jumpToKeyframe':
+      return typeof action.index === 'number' && Number.isInteger(action.index) && action.index >= 0;
+    case 'playMusic':
+    case 'stopMusic':
+    case 'screenshot':
+      return true;
+    default:
+      return false;
+  }
+};
+
+export const isValidBinding = (binding: unknown): binding is InputBinding =>
+  isObject(binding) &&
+  typeof binding.id === 'string' &&
+  isValidSource(binding.source) &&
+  isValidAction(binding.action) &&
+  (binding.effect === undefined || (typeof binding.effect === 'string' && !!getEffectDefinition(binding.effect)));
+
+export const loadBindings = (): InputBinding[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_BINDINGS;
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed.filter(isValidBinding) : DEFAULT_BINDINGS;
+  } catch (error) {
+    console.error("Failed to load bindings:", error);
+    return DEFAULT_BINDINGS;
+  }
+};
+
+export const saveBindings = (bindings: InputBinding[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+  } catch (error) {
+    console.error("Failed to save bindings:", error);
+  }
+};
+
+export const loadObjectThresholds = (): ObjectThresholds => {
+  try {
+    const stored = localStorage.getItem(THRESHOLDS_STORAGE_KEY);
+    if (!stored) return {};
+    const parsed = JSON.parse(stored);
+    const [min, max] = OBJECT_THRESHOLD_RANGE;
+    return Object.fromEntries(Object.entries(parsed ?? {}).filter(([category, threshold]) =>
+      BINDABLE_OBJECTS.includes(category) && typeof threshold === 'number' && threshold >= min && threshold <= max
+    )) as ObjectThresholds;
+  } catch (error) {
+    console.error("Failed to load object thresholds:", error);
+    return {};
+  }
+};
+
+export const saveObjectThresholds = (thresholds: ObjectThresholds) => {
+  try {
+    localStorage.setItem(THRESHOLDS_STORAGE_KEY, JSON.stringify(thresholds));
+  } catch (error) {
+    console.error("Failed to save object thresholds:", error);
+  }
+};
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { REFERENCE_FPS, SimulationClock } from './clock';
+
+const FRAME_MS = 1000 / REFERENCE_FPS;
+
+// Ticks at 60 fps from t = 0 and returns the steps of the last frame.
+const run = (clock: SimulationClock, frames: number, frameMs = FRAME_MS) => {
+  let steps = clock.tick(0);
+  for (let i = 1; i <= frames; i++) steps = clock.tick(i * frameMs);
+  return steps;
+};
+
+describe('SimulationClock', () => {
+  it('follows the wall clock with variable steps', () => {
+    const clock = new SimulationClock();
+    expect(clock.tick(1000)).toEqual([{ time: 0, deltaTime: 0 }]);
+    const [step] = clock.tick(1050);
+    expect(step.deltaTime).toBeCloseTo(0.05);
+    expect(clock.getTime()).toBeCloseTo(0.05);
+  });
+
+  it('clamps long frames', () => {
+    const clock = new SimulationClock();
+    clock.tick(0);
+    expect(clock.tick(5000)[0].deltaTime).toBeCloseTo(0.1);
+  });
+
+  it('scales time', () => {
+    const clock = new SimulationClock();
+    clock.setTimeScale(0.5);
+    run(clock, 60);
+    expect(clock.getTime()).toBeCloseTo(0.5);
+    clock.setTimeScale(-1);
+    expect(clock.getTimeScale()).toBe(0);
+  });
+
+  it('runs no steps while paused, and one per step() call', () => {
+    const clock = new SimulationClock();
+    run(clock, 10);
+    const before = clock.getTime();
+    clock.pause();
+    expect(clock.tick(1000)).toEqual([]);
+    clock.step();
+    clock.step();
+    expect(clock.tick(1016)).toHaveLength(1);
+    expect(clock.tick(1032)).toHaveLength(1);
+    expect(clock.tick(1048)).toEqual([]);
+    expect(clock.getTime()).toBeCloseTo(before + 2 / REFERENCE_FPS);
+  });
+
+  it('steps by the fixed timestep while paused when one is set', () => {
+    const clock = new SimulationClock();
+    clock.setFixedTimestep(1 / 30);
+    clock.pause();
+    clock.step();
+    expect(clock.tick(0)[0].deltaTime).toBeCloseTo(1 / 30);
+  });
+
+  it('drops queued steps on resume', () => {
+    const clock = new SimulationClock();
+    clock.pause();
+    clock.step();
+    clock.resume();
+    clock.tick(0);
+    clock.pause();
+    expect(clock.tick(16)).toEqual([]);
+  });
+
+  it('accumulates wall time into fixed steps', () => {
+    const clock = new SimulationClock();
+    clock.setFixedTimestep(1 / 30);
+    const counts = [clock.tick(0).length];
+    for (let i = 1; i <= 60; i++) counts.push(clock.tick(i * FRAME_MS).length);
+    // Every other 60 fps frame runs one 30 Hz step.
+    expect(counts.reduce((sum, count) => sum + count, 0)).toBe(30);
+    expect(clock.getTime()).toBeCloseTo(1);
+  });
+
+  it('runs several fixed steps in one slow frame, up to a limit', () => {
+    const clock = new SimulationClock();
+    clock.setFixedTimestep(1 / 240);
+    clock.tick(0);
+    expect(clock.tick(20)).toHaveLength(4);
+    // A clamped 100 ms frame would need 24 steps; the backlog is dropped.
+    expect(clock.tick(1000)).toHaveLength(8);
+    expect(clock.tick(1000 + 1000 / 240 + 0.1)).toHaveLength(1);
+  });
+
+  it('treats a non-positive timestep as variable', () => {
+    const clock = new SimulationClock();
+    clock.setFixedTimestep(0);
+    expect(clock.getFixedTimestep()).toBeNull();
+  });
+
+  it('advances by hand for offline rendering, then resumes from the next tick', () => {
+    const clock = new SimulationClock();
+    clock.tick(0);
+    clock.advanceBy(0.5);
+    expect(clock.getTime()).toBeCloseTo(0.5);
+    // The time spent rendering doesn't count as a frame
+    expect(clock.tick(60000)[0].deltaTime).toBe(0);
+  });
+
+  it('resets to time zero', () => {
+    const clock = new SimulationClock();
+    run(clock, 30);
+    clock.reset();
+    expect(clock.getTime()).toBe(0);
+    expect(clock.tick(5000)[0].deltaTime).toBe(0);
+  });
+});
@@ -0,0 +1,110 @@
+// Simulation time source for SceneManager. Effects receive (time, deltaTime) in
+// simulated seconds, so pausing or slowing the clock freezes/slows every effect.
+
+export const REFERENCE_FPS = 60;
+const DEFAULT_STEP = 1 / REFERENCE_FPS;
+// Long frames (tab in background, debugger) are clamped so effects don't jump.
+const MAX_FRAME_DELTA = 0.1;
+const MAX_FIXED_STEPS_PER_FRAME = 8;
+
+export interface ClockStep {
+  time: number;
+  deltaTime: number;
+}
+
+export class SimulationClock {
+  private time = 0;
+  private lastNow: number | null = null;
+  private accumulator = 0;
+  private paused = false;
+  private pendingSteps = 0;
+  private timeScale = 1;
+  private fixedTimestep: number | null = null;
+
+  // Advance by the wall-clock time since the previous tick and return the
+  // simulation steps to run this frame (none while paused).
+  public tick(nowMs: number): ClockStep[] {
+    const realDelta = this.lastNow === null ? 0 : Math.min((nowMs - this.lastNow) / 1000, MAX_FRAME_DELTA);
+    this.lastNow = nowMs;
+
+    if (this.paused) {
+      if (this.pendingSteps === 0) return [];
+      this.pendingSteps--;
+      return [this.advance(this.fixedTimestep ?? DEFAULT_STEP)];
+    }
+
+    const scaledDelta = realDelta * this.timeScale;
+    if (this.fixedTimestep === null) {
+      return [this.advance(scaledDelta)];
+    }
+
+    const steps: ClockStep[] = [];
+    this.accumulator += scaledDelta;
+    while (this.accumulator >= this.fixedTimestep && steps.length < MAX_FIXED_STEPS_PER_FRAME) {
+      this.accumulator -= this.fixedTimestep;
+      steps.push(this.advance(this.fixedTimestep));
+    }
+    // Drop the backlog we couldn't catch up on instead of spiralling.
+    if (steps.length === MAX_FIXED_STEPS_PER_FRAME) this.accumulator = 0;
+    return steps;
+  }
+
+  // Manual step for offline rendering, independent of the wall clock. The
+  // next tick starts measuring afresh instead of seeing the time spent here.
+  public advanceBy(deltaTime: number): ClockStep {
+    this.lastNow = null;
+    return this.advance(deltaTime);
+  }
+
+  // Back to time zero, e.g. to render a clip from the effect's first frame.
+  public reset() {
+    this.time = 0;
+    this.accumulator = 0;
+    this.lastNow = null;
+  }
+
+  private advance(deltaTime: number): ClockStep {
+    this.time += deltaTime;
+    return { time: this.time, deltaTime };
+  }
+
+  public pause() {
+    this.paused = true;
+  }
+
+  public resume() {
+    this.paused = false;
+    this.pendingSteps = 0;
+  }
+
+  public isPaused() {
+    return this.paused;
+  }
+
+  // Queue a single frame while paused.
+  public step() {
+    if (this.paused) this.pendingSteps++;
+  }
+
+  public setTimeScale(scale: number) {
+    this.timeScale = Math.max(0, scale);
+  }
+
+  public getTimeScale() {
+    return this.timeScale;
+  }
+
+  // Pass null for variable steps (one per rendered frame).
+  public setFixedTimestep(seconds: number | null) {
+    this.fixedTimestep = seconds && seconds > 0 ? seconds : null;
+    this.accumulator = 0;
+  }
+
+  public getFixedTimestep() {
+    return this.fixedTimestep;
+  }
+
+  public getTime() {
+    return this.time;
+  }
+}
@@ -0,0 +1,14 @@
+// Save a Blob through a temporary link; the object URL is released right after the click.
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const timestampedName = (prefix: string, extension: string) =>
+  `${prefix}-${new Date().toISOString().replace(/[:.]/g, '-')}.${extension}`;
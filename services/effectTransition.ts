@@ -0,0 +1,132 @@
+import * as THREE from 'three';
+import { ParticleSnapshot, TransitionSettings, TransitionStyle } from '../types';
+import { Random } from './random';
+import { particleProgress } from './timeline';
+
+// Overlay that morphs the particles of the previous effect into the live
+// particles of the next one, which stays hidden until the morph completes.
+// Extra particles on either side fade in from / out to black, which is
+// invisible under additive blending.
+
+export const TRANSITION_LABELS: Record<TransitionStyle, string> = {
+  cut: '直接切换',
+  dissolve: '溶解',
+  implode: '内聚',
+  explode: '爆散',
+  swirl: '旋涡'
+};
+
+// Share of each particle's transition that is staggered; dissolve spreads it most
+const DISSOLVE_STAGGER = 0.6;
+const MOTION_STAGGER = 0.2;
+// Distance from the centre at the halfway point, relative to the straight path
+const IMPLODE_SCALE = 0;
+const EXPLODE_SCALE = 2.5;
+const SWIRL_TURNS = 1;
+
+export class EffectTransition {
+  private points: THREE.Points;
+  private from: ParticleSnapshot;
+  // Per-particle 0..1 position in the stagger order
+  private delays: Float32Array;
+  private elapsed = 0;
+
+  constructor(
+    private scene: THREE.Scene,
+    from: ParticleSnapshot,
+    targetCount: number,
+    private settings: TransitionSettings,
+    material: THREE.PointsMaterial,
+    random: Random
+  ) {
+    const count = Math.max(from.count, targetCount);
+    this.from = from;
+    this.delays = new Float32Array(count);
+    for (let i = 0; i < count; i++) this.delays[i] = random();
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(count * 3), 3));
+    geometry.setAttribute('color', new THREE.BufferAttribute(new Float32Array(count * 3), 3));
+    this.points = new THREE.Points(geometry, material);
+    scene.add(this.points);
+  }
+
+  // Advance and redraw against the target's current particles. Returns true when done.
+  public update(deltaTime: number, to: ParticleSnapshot): boolean {
+    this.elapsed += deltaTime;
+    const progress = this.settings.duration > 0 ? Math.min(1, this.elapsed / this.settings.duration) : 1;
+    const { style } = this.settings;
+    const from = this.from;
+
+    const pos = this.points.geometry.attributes.position.array as Float32Array;
+    const col = this.points.geometry.attributes.color.array as Float32Array;
+    const count = pos.length / 3;
+    const start = new THREE.Vector3();
+    const end = new THREE.Vector3();
+    const point = new THREE.Vector3();
+
+    for (let i = 0; i < count; i++) {
+      const i3 = i * 3;
+      const hasFrom = i < from.count && from.count > 0;
+      const hasTo = i < to.count && to.count > 0;
+      // Missing ends borrow a partner's position so extras spawn or vanish in place
+      const f3 = (hasFrom ? i : i % Math.max(1, from.count)) * 3;
+      const t3 = (hasTo ? i : i % Math.max(1, to.count)) * 3;
+      start.set(from.positions[f3] ?? 0, from.positions[f3 + 1] ?? 0, from.positions[f3 + 2] ?? 0);
+      end.set(to.positions[t3] ?? 0, to.positions[t3 + 1] ?? 0, to.positions[t3 + 2] ?? 0);
+
+      const p = particleProgress(progress, this.delays[i], style === 'dissolve' ? DISSOLVE_STAGGER : MOTION_STAGGER, 'easeInOut');
+      this.place(style, start, end, p, point);
+      pos[i3] = point.x;
+      pos[i3 + 1] = point.y;
+      pos[i3 + 2] = point.z;
+
+      for (let k = 0; k < 3; k++) {
+        const a = hasFrom ? from.colors[i3 + k] : 0;
+        const b = hasTo ? to.colors[i3 + k] : 0;
+        col[i3 + k] = a + (b - a) * p;
+      }
+    }
+    this.points.geometry.attributes.position.needsUpdate = true;
+    this.points.geometry.attributes.color.needsUpdate = true;
+    return progress >= 1;
+  }
+
+  private place(style: TransitionStyle, start: THREE.Vector3, end: THREE.Vector3, p: number, out: THREE.Vector3) {
+    switch (style) {
+      case 'implode':
+      case 'explode': {
+        // Pulled through the centre or pushed outwards, peaking halfway
+        const middle = style === 'implode' ? IMPLODE_SCALE : EXPLODE_SCALE;
+        out.lerpVectors(start, end, p).multiplyScalar(1 + (middle - 1) * Math.sin(p * Math.PI));
+        return;
+      }
+      case 'swirl': {
+        out.lerpVectors(start, end, p);
+        const angle = Math.sin(p * Math.PI) * Math.PI * 2 * SWIRL_TURNS;
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        out.set(out.x * cos + out.z * sin, out.y, out.z * cos - out.x * sin);
+        return;
+      }
+      default:
+        out.lerpVectors(start, end, p);
+    }
+  }
+
+  // Current particles, so a new switch can start from mid-transition.
+  public getSnapshot(): ParticleSnapshot {
+    const { position, color } = this.points.geometry.attributes;
+    return {
+      count: position.count,
+      positions: (position.array as Float32Array).slice(),
+      colors: (color.array as Float32Array).slice()
+    };
+  }
+
+  public dispose() {
+    this.scene.remove(this.points);
+    this.points.geometry.dispose();
+    this.points.material.dispose();
+  }
+}
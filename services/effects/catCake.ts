@@ -0,0 +1,360 @@
+import * as THREE from 'three';
+import { EffectConfig, EffectContext, EffectType, ParamSchema } from '../../types';
+import { createRandom } from '../random';
+import { largestObject } from '../objectInput';
+import { CELEBRATION } from '../tunes';
+import {
+  PointsEffect,
+  GALAXY_ROTATION_RATE,
+  damp,
+  frameCount,
+  generateCanvasPositions,
+  generateGalaxyLayout,
+  objectToWorld
+} from './shared';
+
+export const DEFAULT_MESSAGE = '天天开心~';
+
+export const CAT_CAKE_PARAMS = {
+  candles: { type: 'number', label: '蜡烛数量', group: '蜡烛', min: 1, max: 20, step: 1, default: 1 },
+  blowThreshold: { type: 'number', label: '吹气阈值', group: '吹蜡烛', min: 0.02, max: 0.5, step: 0.01, default: 0.12, live: true },
+  blowDuration: { type: 'number', label: '吹气时长 (秒)', group: '吹蜡烛', min: 0.1, max: 2, step: 0.1, default: 0.5, live: true },
+  followObject: { type: 'boolean', label: '跟随物体', group: '跟随', default: true, live: true }
+} satisfies ParamSchema;
+
+const CANDLE_TOP = 20;
+// Seconds the ambient noise level is averaged over while nobody is blowing
+const NOISE_FLOOR_SECONDS = 3;
+// Seconds for the smoke to drift off and fade out
+const SMOKE_SECONDS = 4;
+const SMOKE_GREY = 0.35;
+const SMOKE_WIND = 0.08;
+// Seconds the message is scattered for after the candles go out
+const BURST_SECONDS = 2.5;
+// Limits of the cake's scale, which follows the height of the object's box
+const OBJECT_SCALE = [0.5, 1.5];
+
+// Galaxy that turns into a birthday cake (and plays a song) while a cat is in
+// view, standing where the cat is. Blowing into the microphone puts the
+// candles out.
+export class CatCakeEffect extends PointsEffect<typeof CAT_CAKE_PARAMS> {
+  private galaxyPositions = new Float32Array(0);
+  private galaxyColors = new Float32Array(0);
+  private cakePositions = new Float32Array(0);
+  private cakeColors = new Float32Array(0);
+  private textStartIndex = 0;
+  private flameStartIndex = 0;
+  private candleCentres: { x: number; z: number }[] = [];
+  private candleRadius = 1.5;
+  // Smoke and celebration burst velocities
+  private velocities = new Float32Array(0);
+  private isCatDetected = false;
+  private galaxyRotation = 0;
+  private candlesLit = true;
+  private noiseFloor: number | null = null;
+  private blowTime = 0;
+  private smokeTime = 0;
+  private burstTime = 0;
+  protected rebuildKeys: (keyof EffectConfig)[] = ['count', 'seed', 'text'];
+
+  constructor() {
+    super(EffectType.CREATIVE_CAT_CAKE, CAT_CAKE_PARAMS);
+  }
+
+  public init(scene: THREE.Scene, config: EffectConfig, context: EffectContext) {
+    this.attach(config, context);
+
+    const count = config.count;
+    const geometry = new THREE.BufferGeometry();
+    const galaxy = generateGalaxyLayout(count, config.color, this.random);
+    this.galaxyPositions = galaxy.positions;
+    this.galaxyColors = galaxy.colors;
+
+    // Cake + Text Target Positions
+    const cakePositions = new Float32Array(count * 3);
+    const cakeColors = new Float32Array(count * 3);
+    const textPositions = generateCanvasPositions(this.textStyle(DEFAULT_MESSAGE), count / 4, this.random); // Use subset for text
+
+    const cakeColor1 = new THREE.Color(0xFF69B4); // Pink
+    const cakeColor2 = new THREE.Color(0x87CEEB); // Sky blue
+
+    // Build Cake Geometry target
+    let idx = 0;
+    // 1. Base Layer (Cylinder)
+    const baseCount = Math.floor(count * 0.4);
+    for (let i = 0; i < baseCount; i++) {
+      const i3 = idx * 3;
+      const theta = this.random() * Math.PI * 2;
+      const r = Math.sqrt(this.random()) * 25; // Radius 25
+      const h = (this.random() - 0.5) * 15 - 10; // Y from -17.5 to -2.5
+      cakePositions[i3] = r * Math.cos(theta);
+      cakePositions[i3 + 1] = h;
+      cakePositions[i3 + 2] = r * Math.sin(theta);
+
+      cakeColors[i3] = cakeColor1.r; cakeColors[i3 + 1] = cakeColor1.g; cakeColors[i3 + 2] = cakeColor1.b;
+      idx++;
+    }
+    // 2. Top Layer
+    const topCount = Math.floor(count * 0.3);
+    for (let i = 0; i < topCount; i++) {
+      const i3 = idx * 3;
+      const theta = this.random() * Math.PI * 2;
+      const r = Math.sqrt(this.random()) * 18;
+      const h = (this.random() - 0.5) * 10 + 5; // Y from 0 to 10
+      cakePositions[i3] = r * Math.cos(theta);
+      cakePositions[i3 + 1] = h;
+      cakePositions[i3 + 2] = r * Math.sin(theta);
+
+      cakeColors[i3] = cakeColor2.r; cakeColors[i3 + 1] = cakeColor2.g; cakeColors[i3 + 2] = cakeColor2.b;
+      idx++;
+    }
+    // 3. Candles, in a ring on the top layer when there are several
+    const { candles } = this.params;
+    const ringRadius = candles > 1 ? Math.min(12, 3 + candles) : 0;
+    this.candleRadius = candles > 3 ? 1 : 1.5;
+    this.candleCentres = Array.from({ length: candles }, (_, candle) => {
+      const angle = (candle / candles) * Math.PI * 2;
+      return { x: Math.cos(angle) * ringRadius, z: Math.sin(angle) * ringRadius };
+    });
+    const candleCount = Math.floor(count * 0.05);
+    for (let i = 0; i < candleCount; i++) {
+      const i3 = idx * 3;
+      const centre = this.candleCentres[i % candles];
+      const theta = this.random() * Math.PI * 2;
+      const r = Math.sqrt(this.random()) * this.candleRadius;
+      const h = (this.random()) * 10 + 10; // Y 10 to 20
+      cakePositions[i3] = centre.x + r * Math.cos(theta);
+      cakePositions[i3 + 1] = h;
+      cakePositions[i3 + 2] = centre.z + r * Math.sin(theta);
+      cakeColors[i3] = 1; cakeColors[i3 + 1] = 0; cakeColors[i3 + 2] = 0; // Red candle
+      idx++;
+    }
+    // 4. Text (Birthday) - placed below
+    this.textStartIndex = idx;
+    const textCount = Math.floor(count * 0.2);
+    for (let i = 0; i < textCount; i++) {
+      const i3 = idx * 3;
+      const tIdx = (i % (textPositions.length / 3)) * 3;
+      cakePositions[i3] = textPositions[tIdx];
+      cakePositions[i3 + 1] = textPositions[tIdx + 1] - 60; // Shift further down
+      cakePositions[i3 + 2] = textPositions[tIdx + 2];
+      cakeColors[i3] = 1; cakeColors[i3 + 1] = 1; cakeColors[i3 + 2] = 0; // Yellow Text
+      idx++;
+    }
+    // 5. Flame (Remaining)
+    this.flameStartIndex = idx;
+    this.cakePositions = cakePositions;
+    this.cakeColors = cakeColors;
+    this.velocities = new Float32Array(count * 3);
+
+    geometry.setAttribute('position', new THREE.BufferAttribute(galaxy.positions.slice(), 3));
+    geometry.setAttribute('color', new THREE.BufferAttribute(galaxy.colors.slice(), 3));
+
+    const material = new THREE.PointsMaterial({
+      size: config.size,
+      vertexColors: true,
+      map: this.spriteTexture('disc'),
+      transparent: true,
+      blending: THREE.AdditiveBlending,
+      depthWrite: false
+    });
+
+    this.addPoints(scene, geometry, material);
+  }
+
+  // Same seed, same galaxy; the galaxy mode eases into the new colours
+  protected applyColor() {
+    this.galaxyColors = generateGalaxyLayout(this.config.count, this.config.color, createRandom(this.config.seed)).colors;
+  }
+
+  public update(time: number, deltaTime: number) {
+    if (!this.particles) return;
+    const frames = frameCount(deltaTime);
+    const lerp = damp(0.05, deltaTime);
+    const count = this.config.count;
+    const { galaxyPositions, galaxyColors, cakePositions, cakeColors, textStartIndex, flameStartIndex } = this;
+    const pos = this.particles.geometry.attributes.position.array as Float32Array;
+    const col = this.particles.geometry.attributes.color.array as Float32Array;
+    const isActive = this.context.isTriggerActive('morph');
+
+    // The birthday song is attached to the morph trigger where the effect is registered
+    this.isCatDetected = isActive;
+
+    this.followObject(deltaTime);
+
+    if (this.isCatDetected) {
+      // --- CAKE MODE ---
+      this.particles.rotation.y = Math.sin(time * 0.5) * 0.2;
+      if (this.candlesLit && this.detectBlowing(deltaTime)) this.blowOut();
+
+      // Lerp static parts; the message stays scattered while it bursts
+      const settled = this.burstTime > 0 ? textStartIndex : flameStartIndex;
+      for (let i = 0; i < settled; i++) {
+        const i3 = i * 3;
+        pos[i3] += (cakePositions[i3] - pos[i3]) * lerp;
+        pos[i3 + 1] += (cakePositions[i3 + 1] - pos[i3 + 1]) * lerp;
+        pos[i3 + 2] += (cakePositions[i3 + 2] - pos[i3 + 2]) * lerp;
+
+        col[i3] += (cakeColors[i3] - col[i3]) * lerp;
+        col[i3 + 1] += (cakeColors[i3 + 1] - col[i3 + 1]) * lerp;
+        col[i3 + 2] += (cakeColors[i3 + 2] - col[i3 + 2]) * lerp;
+      }
+      if (this.burstTime > 0) this.updateBurst(deltaTime, frames, pos);
+
+      if (this.candlesLit) {
+        this.updateFlames(deltaTime, frames, pos, col);
+      } else {
+        this.updateSmoke(deltaTime, frames, pos, col);
+      }
+
+    } else {
+      // The candles are lit again for the next cat
+      this.candlesLit = true;
+      this.noiseFloor = null;
+      this.blowTime = 0;
+      this.burstTime = 0;
+
+      this.galaxyRotation += this.config.speed * GALAXY_ROTATION_RATE * frames;
+      this.particles.rotation.y = this.galaxyRotation;
+      for (let i = 0; i < count; i++) {
+        const i3 = i * 3;
+        pos[i3] += (galaxyPositions[i3] - pos[i3]) * lerp;
+        pos[i3 + 1] += (galaxyPositions[i3 + 1] - pos[i3 + 1]) * lerp;
+        pos[i3 + 2] += (galaxyPositions[i3 + 2] - pos[i3 + 2]) * lerp;
+
+        col[i3] += (galaxyColors[i3] - col[i3]) * lerp;
+        col[i3 + 1] += (galaxyColors[i3 + 1] - col[i3 + 1]) * lerp;
+        col[i3 + 2] += (galaxyColors[i3 + 2] - col[i3 + 2]) * lerp;
+      }
+    }
+
+    this.particles.geometry.attributes.position.needsUpdate = true;
+    this.particles.geometry.attributes.color.needsUpdate = true;
+  }
+
+  // The cake drifts to the largest detected object and grows with it; the
+  // galaxy, or a cake with nothing to follow, returns to the centre.
+  private followObject(deltaTime: number) {
+    const object = this.isCatDetected && this.params.followObject ? largestObject(this.context.getInput().objects) : null;
+    const target = object ? objectToWorld(object) : { x: 0, y: 0 };
+    const scale = object ? THREE.MathUtils.clamp(object.size.height, OBJECT_SCALE[0], OBJECT_SCALE[1]) : 1;
+    const follow = damp(0.1, deltaTime);
+    const { position } = this.particles;
+    position.x += (target.x - position.x) * follow;
+    position.y += (target.y - position.y) * follow;
+    this.particles.scale.setScalar(this.particles.scale.x + (scale - this.particles.scale.x) * follow);
+  }
+
+  // A sustained rise of broadband energy over the ambient noise floor, which
+  // is calibrated from the quiet moments since the cake appeared. Blowing is
+  // noise across the whole spectrum, while speech and music leave some band
+  // quiet, so the weakest band is what counts.
+  private detectBlowing(deltaTime: number) {
+    const { bass, mid, treble } = this.context.getAudio();
+    const energy = Math.min(bass, mid, treble);
+    if (this.noiseFloor === null) this.noiseFloor = energy;
+    if (energy > this.noiseFloor + this.params.blowThreshold) {
+      this.blowTime += deltaTime;
+    } else {
+      this.blowTime = 0;
+      this.noiseFloor += (energy - this.noiseFloor) * (1 - Math.exp(-deltaTime / NOISE_FLOOR_SECONDS));
+    }
+    return this.blowTime >= this.params.blowDuration;
+  }
+
+  // Flames turn to smoke and the message bursts into confetti colours.
+  private blowOut() {
+    this.candlesLit = false;
+    this.smokeTime = 0;
+    this.burstTime = BURST_SECONDS;
+    const { velocities, textStartIndex, flameStartIndex } = this;
+    const col = this.particles.geometry.attributes.color.array as Float32Array;
+    const confetti = new THREE.Color();
+
+    for (let i = textStartIndex; i < flameStartIndex; i++) {
+      const i3 = i * 3;
+      const theta = this.random() * Math.PI * 2;
+      const phi = Math.acos(this.random() * 2 - 1);
+      const speed = this.random() * 1.2 + 0.4;
+      velocities[i3] = Math.sin(phi) * Math.cos(theta) * speed;
+      velocities[i3 + 1] = Math.abs(Math.cos(phi)) * speed + 0.5;
+      velocities[i3 + 2] = Math.sin(phi) * Math.sin(theta) * speed;
+      confetti.setHSL(this.random(), 0.9, 0.6);
+      col[i3] = confetti.r; col[i3 + 1] = confetti.g; col[i3 + 2] = confetti.b;
+    }
+    for (let i = flameStartIndex; i < this.config.count; i++) {
+      const i3 = i * 3;
+      velocities[i3] = SMOKE_WIND + (this.random() - 0.5) * 0.1;
+      velocities[i3 + 1] = 0.1 + this.random() * 0.15;
+      velocities[i3 + 2] = (this.random() - 0.5) * 0.1;
+    }
+    this.context.playTune(CELEBRATION);
+  }
+
+  private updateFlames(deltaTime: number, frames: number, pos: Float32Array, col: Float32Array) {
+    const { candleCentres, candleRadius, flameStartIndex } = this;
+    const flameResetChance = 1 - Math.pow(0.95, frames);
+    const flameRedden = damp(0.1, deltaTime);
+    // Jitter is a random walk, so its spread grows with the square root of elapsed frames
+    const jitter = 0.2 * Math.sqrt(frames);
+    for (let i = flameStartIndex; i < this.config.count; i++) {
+      const i3 = i * 3;
+      // Reset if high
+      if (pos[i3 + 1] > CANDLE_TOP + 8 || this.random() < flameResetChance) {
+        const centre = candleCentres[i % candleCentres.length];
+        const theta = this.random() * Math.PI * 2;
+        const r = this.random() * candleRadius * 1.3;
+        pos[i3] = centre.x + r * Math.cos(theta);
+        pos[i3 + 1] = CANDLE_TOP; // Top of candle
+        pos[i3 + 2] = centre.z + r * Math.sin(theta);
+
+        col[i3] = 1; col[i3 + 1] = 1; col[i3 + 2] = 0; // Yellow base
+      }
+
+      pos[i3 + 1] += 0.2 * frames; // Rise
+      pos[i3] += (this.random() - 0.5) * jitter; // Jitter
+
+      // Color shift to red
+      col[i3] += (1 - col[i3]) * flameRedden;
+      col[i3 + 1] -= 0.02 * frames; // Green down -> Red
+    }
+  }
+
+  // Smoke rises, spreads with the wind and fades out; with additive blending
+  // black particles are invisible, so they simply stay where they end up.
+  private updateSmoke(deltaTime: number, frames: number, pos: Float32Array, col: Float32Array) {
+    this.smokeTime += deltaTime;
+    const fade = Math.max(0, 1 - this.smokeTime / SMOKE_SECONDS);
+    const greyen = damp(0.1, deltaTime);
+    const jitter = 0.05 * Math.sqrt(frames);
+    const { velocities, flameStartIndex } = this;
+    for (let i = flameStartIndex; i < this.config.count; i++) {
+      const i3 = i * 3;
+      pos[i3] += velocities[i3] * frames;
+      pos[i3 + 1] += velocities[i3 + 1] * frames;
+      pos[i3 + 2] += velocities[i3 + 2] * frames;
+      velocities[i3] += (this.random() - 0.5) * jitter;
+      velocities[i3 + 2] += (this.random() - 0.5) * jitter;
+      const grey = SMOKE_GREY * fade;
+      col[i3] += (grey - col[i3]) * greyen;
+      col[i3 + 1] += (grey - col[i3 + 1]) * greyen;
+      col[i3 + 2] += (grey - col[i3 + 2]) * greyen;
+    }
+  }
+
+  private updateBurst(deltaTime: number, frames: number, pos: Float32Array) {
+    this.burstTime = Math.max(0, this.burstTime - deltaTime);
+    const drag = Math.pow(0.96, frames);
+    const { velocities, textStartIndex, flameStartIndex } = this;
+    for (let i = textStartIndex; i < flameStartIndex; i++) {
+      const i3 = i * 3;
+      pos[i3] += velocities[i3] * frames;
+      pos[i3 + 1] += velocities[i3 + 1] * frames;
+      pos[i3 + 2] += velocities[i3 + 2] * frames;
+      velocities[i3 + 1] -= 0.02 * frames;
+      velocities[i3] *= drag;
+      velocities[i3 + 1] *= drag;
+      velocities[i3 + 2] *= drag;
+    }
+  }
+}
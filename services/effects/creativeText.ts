@@ -0,0 +1,122 @@
+import * as THREE from 'three';
+import { EffectConfig, EffectContext } from '../../types';
+import {
+  PointsEffect,
+  GALAXY_OUTSIDE_COLOR,
+  GALAXY_ROTATION_RATE,
+  damp,
+  frameCount,
+  smoothstep,
+  drawLobster,
+  generateCanvasPositions,
+  generateGalaxyLayout
+} from './shared';
+import { loadShapeTarget } from './shapeTarget';
+
+export const DEFAULT_MESSAGE = '小龙虾';
+
+// Galaxy that morphs into a message (default "小龙虾") and a lobster drawing while the hand gesture is held,
+// or part of the way as the hand closes.
+export class CreativeTextEffect extends PointsEffect {
+  private galaxyPositions = new Float32Array(0);
+  private textPositions = new Float32Array(0);
+  // Per-particle colours of an image target; null uses config.color
+  private targetColors: Float32Array | null = null;
+  // Bumped on every init so a late image load can't land on a newer setup
+  private loadToken = 0;
+  private currentRotationY = 0;
+  // 0 = galaxy, 1 = crayfish
+  private blend = 0;
+  protected rebuildKeys: (keyof EffectConfig)[] = ['count', 'seed', 'text', 'image', 'model'];
+
+  public init(scene: THREE.Scene, config: EffectConfig, context: EffectContext) {
+    this.attach(config, context);
+
+    const count = config.count;
+    const geometry = new THREE.BufferGeometry();
+
+    // 1. Galaxy Positions
+    const galaxy = generateGalaxyLayout(count, config.color, this.random);
+    this.galaxyPositions = galaxy.positions;
+
+    // 2. Text + Lobster Positions
+    this.textPositions = generateCanvasPositions(this.textStyle(DEFAULT_MESSAGE), count, this.random, drawLobster);
+    this.targetColors = null;
+
+    // 3. A model or image target replaces the text once it has loaded
+    const token = ++this.loadToken;
+    loadShapeTarget(config, count, config.seed)
+      ?.then(target => {
+        if (token !== this.loadToken || !this.particles) return;
+        this.textPositions = target.positions;
+        this.targetColors = target.colors;
+      })
+      .catch(error => console.error(error));
+
+    geometry.setAttribute('position', new THREE.BufferAttribute(galaxy.positions.slice(), 3));
+    geometry.setAttribute('color', new THREE.BufferAttribute(galaxy.colors, 3));
+
+    const material = new THREE.PointsMaterial({
+      size: config.size,
+      sizeAttenuation: true,
+      depthWrite: false,
+      blending: THREE.AdditiveBlending,
+      vertexColors: true,
+      map: this.spriteTexture('disc'),
+      transparent: true
+    });
+
+    this.addPoints(scene, geometry, material);
+  }
+
+  public update(time: number, deltaTime: number) {
+    if (!this.particles) return;
+    const moveLerp = damp(0.08, deltaTime);
+    const colorLerp = damp(0.05, deltaTime);
+    const count = this.config.count;
+    const galaxyPositions = this.galaxyPositions;
+    const textPositions = this.textPositions;
+    const targetColors = this.targetColors;
+    const pos = this.particles.geometry.attributes.position.array as Float32Array;
+    const col = this.particles.geometry.attributes.color.array as Float32Array;
+
+    // Victory gesture shows the crayfish outright; otherwise closing the hand blends towards it
+    const hand = this.context.getInput().hand;
+    const targetBlend = this.context.isTriggerActive('morph') ? 1
+      : hand ? smoothstep(0.2, 0.8, 1 - hand.openness)
+      : 0;
+    this.blend += (targetBlend - this.blend) * damp(0.1, deltaTime);
+    const blend = this.blend;
+
+    if (blend > 0.5) { // Crayfish
+      this.currentRotationY += (0 - this.currentRotationY) * damp(0.1, deltaTime);
+    } else { // Galaxy
+      this.currentRotationY += this.config.speed * GALAXY_ROTATION_RATE * frameCount(deltaTime);
+    }
+    this.particles.rotation.y = this.currentRotationY;
+
+    const colorText = new THREE.Color(this.config.color);
+    const colorOutside = new THREE.Color(GALAXY_OUTSIDE_COLOR);
+    const targetColor = new THREE.Color();
+
+    for (let i = 0; i < count; i++) {
+      const i3 = i * 3;
+      const gx = galaxyPositions[i3];
+      const gy = galaxyPositions[i3 + 1];
+      const gz = galaxyPositions[i3 + 2];
+      pos[i3] += (gx + (textPositions[i3] - gx) * blend - pos[i3]) * moveLerp;
+      pos[i3 + 1] += (gy + (textPositions[i3 + 1] - gy) * blend - pos[i3 + 1]) * moveLerp;
+      pos[i3 + 2] += (gz + (textPositions[i3 + 2] - gz) * blend - pos[i3 + 2]) * moveLerp;
+
+      const radius = Math.sqrt(gx * gx + gz * gz);
+      if (targetColors) colorText.setRGB(targetColors[i3], targetColors[i3 + 1], targetColors[i3 + 2]);
+      targetColor.set(this.config.color).lerp(colorOutside, radius / 50).lerp(colorText, blend);
+
+      col[i3] += (targetColor.r - col[i3]) * colorLerp;
+      col[i3 + 1] += (targetColor.g - col[i3 + 1]) * colorLerp;
+      col[i3 + 2] += (targetColor.b - col[i3 + 2]) * colorLerp;
+    }
+    this.particles.geometry.attributes.position.needsUpdate = true;
+    this.particles.geometry.attributes.color.needsUpdate = true;
+  }
+}
@@ -0,0 +1,97 @@
+import * as THREE from 'three';
+import { EffectConfig, EffectContext, EffectType, ParamSchema } from '../../types';
+import { createRandom } from '../random';
+import { PointsEffect, damp, generateGalaxyLayout, handToWorld } from './shared';
+
+// Each tracked hand pulls its own half of the galaxy.
+const ATTRACTOR_GROUPS = 2;
+
+export const GALAXY_PARAMS = {
+  arms: { type: 'number', label: '旋臂数', group: '形状', min: 1, max: 8, step: 1, default: 3 },
+  radius: { type: 'number', label: '半径', group: '形状', min: 10, max: 100, step: 5, default: 50 },
+  outsideColor: { type: 'color', label: '外圈颜色', group: '形状', default: '#1b3984' },
+  rotation: { type: 'number', label: '旋转速度', group: '运动', min: 0, max: 1, step: 0.05, default: 0.1, live: true },
+  follow: { type: 'number', label: '跟随手势', group: '运动', min: 0.01, max: 0.5, step: 0.01, default: 0.1, live: true },
+  audioSpin: { type: 'number', label: '低音加速旋转', group: '音频', min: 0, max: 5, step: 0.1, default: 1, live: true },
+  mouthBlow: { type: 'number', label: '张嘴吹散', group: '表情', min: 0, max: 3, step: 0.1, default: 1, live: true }
+} satisfies ParamSchema;
+
+export class GalaxyEffect extends PointsEffect<typeof GALAXY_PARAMS> {
+  private layout: Float32Array = new Float32Array(0);
+  private centres = Array.from({ length: ATTRACTOR_GROUPS }, () => ({ x: 0, y: 0 }));
+  private rotation = 0;
+  // Eased mouth openness, so the arms don't jump with the landmarker
+  private blow = 0;
+
+  constructor() {
+    super(EffectType.GALAXY, GALAXY_PARAMS);
+  }
+
+  public init(scene: THREE.Scene, config: EffectConfig, context: EffectContext) {
+    this.attach(config, context);
+
+    const geometry = new THREE.BufferGeometry();
+    const { positions, colors } = generateGalaxyLayout(config.count, config.color, this.random, this.params);
+    this.layout = positions.slice();
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+
+    const material = new THREE.PointsMaterial({
+      size: config.size,
+      sizeAttenuation: true,
+      depthWrite: false,
+      blending: THREE.AdditiveBlending,
+      vertexColors: true,
+      map: this.spriteTexture('disc'),
+      transparent: true
+    });
+
+    this.addPoints(scene, geometry, material);
+  }
+
+  // The layout comes first from the seed, so regenerating it only changes the colours
+  protected applyColor() {
+    const { colors } = generateGalaxyLayout(this.config.count, this.config.color, createRandom(this.config.seed), this.params);
+    const attribute = this.particles.geometry.attributes.color;
+    attribute.array.set(colors);
+    attribute.needsUpdate = true;
+  }
+
+  public update(time: number, deltaTime: number) {
+    if (!this.particles) return;
+
+    // Group centres drift after their hand, and back to the origin without one.
+    // With a single hand both groups follow it.
+    const hands = this.context.getInput().hands;
+    const follow = damp(this.params.follow, deltaTime);
+    this.centres.forEach((centre, group) => {
+      const hand = hands[group % Math.max(hands.length, 1)];
+      const target = hand ? handToWorld(hand) : { x: 0, y: 0 };
+      centre.x += (target.x - centre.x) * follow;
+      centre.y += (target.y - centre.y) * follow;
+    });
+
+    // Rotate in place so each group can be offset independently
+    const { bass } = this.context.getAudio();
+    this.rotation += deltaTime * this.config.speed * (this.params.rotation + bass * this.params.audioSpin);
+    // An open mouth blows the arms outward from each group's centre
+    const face = this.context.getInput().face;
+    this.blow += ((face?.mouthOpen ?? 0) - this.blow) * damp(0.2, deltaTime);
+    const spread = 1 + this.blow * this.params.mouthBlow;
+
+    const angle = this.rotation;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const positions = this.particles.geometry.attributes.position.array;
+    for (let i = 0; i < this.config.count; i++) {
+      const i3 = i * 3;
+      const x = this.layout[i3] * spread;
+      const z = this.layout[i3 + 2] * spread;
+      const centre = this.centres[i % ATTRACTOR_GROUPS];
+      positions[i3] = x * cos + z * sin + centre.x;
+      positions[i3 + 1] = this.layout[i3 + 1] * spread + centre.y;
+      positions[i3 + 2] = z * cos - x * sin;
+    }
+    this.particles.geometry.attributes.position.needsUpdate = true;
+  }
+}
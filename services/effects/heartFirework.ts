@@ -0,0 +1,179 @@
+import * as THREE from 'three';
+import { EffectConfig, EffectContext, EffectType, HandInput, ParamSchema } from '../../types';
+import { createRandom } from '../random';
+import { PointsEffect, damp, faceToWorld, frameCount, generateHeartLayout, handToWorld } from './shared';
+
+const SKY_BLUE = new THREE.Color(0x87CEEB);
+// How long a beat holds the firework, long enough to launch and burst
+const BEAT_FIREWORK_SECONDS = 2.5;
+
+export const HEART_FIREWORK_PARAMS = {
+  launchHeight: { type: 'number', label: '发射高度', group: '烟花', min: 20, max: 100, step: 5, default: 60, live: true },
+  gravity: { type: 'number', label: '重力', group: '烟花', min: 0, max: 0.05, step: 0.001, default: 0.01, live: true },
+  drag: { type: 'number', label: '空气阻力', group: '烟花', min: 0.9, max: 1, step: 0.005, default: 0.99, live: true },
+  beatLaunch: { type: 'boolean', label: '节拍发射', group: '音频', default: true, live: true }
+} satisfies ParamSchema;
+
+// Heart that launches and bursts as a firework while the fist gesture is held,
+// or for a while after a beat in the audio input.
+export class HeartFireworkEffect extends PointsEffect<typeof HEART_FIREWORK_PARAMS> {
+  private heartPositions = new Float32Array(0);
+  private heartColors = new Float32Array(0);
+  private explosionVelocities = new Float32Array(0);
+  // Per-particle randomness, drawn once in init so update never touches the PRNG:
+  // height in the launch column, burst velocity, and offset when relaunched
+  private launchOffsets = new Float32Array(0);
+  private burstVelocities = new Float32Array(0);
+  private relaunchOffsets = new Float32Array(0);
+  private phase = 0;
+  private launchHeight = 0;
+  // Launch column, taken from where the fist was when the firework started
+  private launchX = 0;
+  private beatHold = 0;
+
+  constructor() {
+    super(EffectType.CREATIVE_HEART_FIREWORK, HEART_FIREWORK_PARAMS);
+  }
+
+  public init(scene: THREE.Scene, config: EffectConfig, context: EffectContext) {
+    this.attach(config, context);
+
+    const count = config.count;
+    const geometry = new THREE.BufferGeometry();
+    const heart = generateHeartLayout(count, config.color, this.random);
+    const positions = heart.positions.slice();
+    const colors = heart.colors.slice();
+
+    this.heartPositions = heart.positions;
+    this.heartColors = heart.colors;
+    this.explosionVelocities = new Float32Array(count * 3);
+    this.launchOffsets = new Float32Array(count);
+    this.burstVelocities = new Float32Array(count * 3);
+    this.relaunchOffsets = new Float32Array(count * 3);
+    for (let i = 0; i < count; i++) {
+      const i3 = i * 3;
+      this.launchOffsets[i] = (this.random() - 0.5) * 5;
+      const theta = this.random() * Math.PI * 2;
+      const phi = Math.acos((this.random() * 2) - 1);
+      const speed = this.random() * 1.5 + 0.5;
+      this.burstVelocities[i3] = Math.sin(phi) * Math.cos(theta) * speed;
+      this.burstVelocities[i3 + 1] = Math.sin(phi) * Math.sin(theta) * speed;
+      this.burstVelocities[i3 + 2] = Math.cos(phi) * speed;
+      this.relaunchOffsets[i3] = (this.random() - 0.5) * 2;
+      this.relaunchOffsets[i3 + 1] = (this.random() - 0.5) * 5;
+      this.relaunchOffsets[i3 + 2] = (this.random() - 0.5) * 2;
+    }
+    this.phase = 0;
+    this.launchHeight = 0;
+
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+
+    const material = new THREE.PointsMaterial({
+      size: config.size,
+      sizeAttenuation: true,
+      depthWrite: false,
+      blending: THREE.AdditiveBlending,
+      vertexColors: true,
+      map: this.spriteTexture('snowflake'),
+      transparent: true
+    });
+
+    this.addPoints(scene, geometry, material);
+  }
+
+  // Same seed, same heart; the heart phase eases into the new colours
+  protected applyColor() {
+    this.heartColors = generateHeartLayout(this.config.count, this.config.color, createRandom(this.config.seed)).colors;
+  }
+
+  private setExplosionVelocity(index3: number) {
+    this.explosionVelocities[index3] = this.burstVelocities[index3];
+    this.explosionVelocities[index3 + 1] = this.burstVelocities[index3 + 1];
+    this.explosionVelocities[index3 + 2] = this.burstVelocities[index3 + 2];
+  }
+
+  public update(time: number, deltaTime: number) {
+    if (!this.particles) return;
+    const frames = frameCount(deltaTime);
+    const count = this.config.count;
+    const { heartPositions, heartColors, explosionVelocities, launchOffsets, relaunchOffsets } = this;
+    const pos = this.particles.geometry.attributes.position.array as Float32Array;
+    const col = this.particles.geometry.attributes.color.array as Float32Array;
+    if (this.params.beatLaunch && this.phase === 0 && this.context.getAudio().beat) this.beatHold = BEAT_FIREWORK_SECONDS;
+    this.beatHold = Math.max(0, this.beatHold - deltaTime);
+    const isActive = this.context.isTriggerActive('firework') || this.beatHold > 0;
+    const { launchHeight, gravity, drag: dragFactor } = this.params;
+
+    if (isActive) { // Fist detected
+      if (this.phase === 0) {
+        // With several hands, launch from the most closed one
+        const hand = this.context.getInput().hands.reduce<HandInput | null>(
+          (closest, candidate) => (!closest || candidate.openness < closest.openness ? candidate : closest), null);
+        this.phase = 1;
+        this.launchHeight = 0;
+        // Without hands, from in front of the face (a smile can launch it too)
+        const face = this.context.getInput().face;
+        this.launchX = hand ? handToWorld(hand).x : face ? faceToWorld(face).x : 0;
+      }
+    } else {
+      if (this.phase !== 0) this.phase = 0;
+    }
+
+    if (this.phase === 0) { // Heart
+      const lerp = damp(0.08, deltaTime);
+      this.particles.rotation.y = Math.sin(time * 0.5) * 0.3;
+      for (let i = 0; i < count; i++) {
+        const i3 = i * 3;
+        pos[i3] += (heartPositions[i3] - pos[i3]) * lerp;
+        pos[i3 + 1] += (heartPositions[i3 + 1] - pos[i3 + 1]) * lerp;
+        pos[i3 + 2] += (heartPositions[i3 + 2] - pos[i3 + 2]) * lerp;
+        col[i3] += (heartColors[i3] - col[i3]) * lerp;
+        col[i3 + 1] += (heartColors[i3 + 1] - col[i3 + 1]) * lerp;
+        col[i3 + 2] += (heartColors[i3 + 2] - col[i3 + 2]) * lerp;
+      }
+    }
+    else if (this.phase === 1) { // Launch
+      const lerp = damp(0.15, deltaTime);
+      this.particles.rotation.y += 0.1 * frames;
+      this.launchHeight += 1.5 * frames;
+      for (let i = 0; i < count; i++) {
+        const i3 = i * 3;
+        const tx = this.launchX; const ty = launchOffsets[i]; const tz = 0;
+        pos[i3] += (tx - pos[i3]) * lerp;
+        pos[i3 + 2] += (tz - pos[i3 + 2]) * lerp;
+        pos[i3 + 1] += ((this.launchHeight + ty) - pos[i3 + 1]) * lerp;
+        col[i3] += (SKY_BLUE.r - col[i3]) * lerp;
+        col[i3 + 1] += (SKY_BLUE.g - col[i3 + 1]) * lerp;
+        col[i3 + 2] += (SKY_BLUE.b - col[i3 + 2]) * lerp;
+      }
+      if (this.launchHeight > launchHeight) {
+        this.phase = 2;
+        for (let i = 0; i < count; i++) this.setExplosionVelocity(i * 3);
+      }
+    }
+    else if (this.phase === 2) { // Explode
+      const drag = Math.pow(dragFactor, frames);
+      for (let i = 0; i < count; i++) {
+        const i3 = i * 3;
+        pos[i3] += explosionVelocities[i3] * frames;
+        pos[i3 + 1] += explosionVelocities[i3 + 1] * frames;
+        pos[i3 + 2] += explosionVelocities[i3 + 2] * frames;
+        explosionVelocities[i3 + 1] -= gravity * frames;
+        explosionVelocities[i3] *= drag;
+        explosionVelocities[i3 + 1] *= drag;
+        explosionVelocities[i3 + 2] *= drag;
+
+        if (pos[i3 + 1] < -100 && isActive) {
+          pos[i3] = this.launchX + relaunchOffsets[i3];
+          pos[i3 + 1] = launchHeight + relaunchOffsets[i3 + 1];
+          pos[i3 + 2] = relaunchOffsets[i3 + 2];
+          this.setExplosionVelocity(i3);
+          col[i3] = SKY_BLUE.r; col[i3 + 1] = SKY_BLUE.g; col[i3 + 2] = SKY_BLUE.b;
+        }
+      }
+    }
+    this.particles.geometry.attributes.position.needsUpdate = true;
+    this.particles.geometry.attributes.color.needsUpdate = true;
+  }
+}
@@ -0,0 +1,105 @@
+import * as THREE from 'three';
+import { ImageTarget } from '../../types';
+import { Random } from '../random';
+
+// Turns a PNG/JPEG/SVG into morph target positions and colours, using the
+// same reference-canvas scale as the text targets.
+
+const IMAGE_CANVAS_SIZE = 512;
+const IMAGE_WORLD_SCALE = 0.15;
+// Images are fitted into this box (reference pixels), centred on the origin
+const IMAGE_BOX = 420;
+// Per-particle jitter, matching generateCanvasPositions
+const JITTER = 0.5;
+
+export const DEFAULT_IMAGE_TARGET: Omit<ImageTarget, 'src'> = {
+  brightnessDensity: false,
+  sampleColors: true,
+  alphaThreshold: 0.2,
+  depth: 0
+};
+
+export const loadTargetImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Failed to load image target: ${src.slice(0, 80)}`));
+    image.src = src;
+  });
+
+// Read a user-selected file as a data URL, so the target can be kept in the config.
+export const readFileAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+const luminance = (r: number, g: number, b: number) => (0.2126 * r + 0.7152 * g + 0.0722 * b) / 255;
+
+export const generateImagePositions = (image: HTMLImageElement, count: number, random: Random, target: ImageTarget) => {
+  const positions = new Float32Array(count * 3);
+  const colors = new Float32Array(count * 3);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = canvas.height = IMAGE_CANVAS_SIZE;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return { positions, colors };
+
+  // SVGs without intrinsic size report 0; treat them as square
+  const naturalWidth = image.naturalWidth || IMAGE_BOX;
+  const naturalHeight = image.naturalHeight || IMAGE_BOX;
+  const fit = IMAGE_BOX / Math.max(naturalWidth, naturalHeight);
+  const drawWidth = naturalWidth * fit;
+  const drawHeight = naturalHeight * fit;
+  ctx.drawImage(image, (IMAGE_CANVAS_SIZE - drawWidth) / 2, (IMAGE_CANVAS_SIZE - drawHeight) / 2, drawWidth, drawHeight);
+
+  const data = ctx.getImageData(0, 0, IMAGE_CANVAS_SIZE, IMAGE_CANVAS_SIZE).data;
+
+  // Sampling weight per pixel: zero below the alpha threshold, otherwise
+  // alpha (optionally times brightness). Cumulative for weighted picks.
+  const pixelCount = IMAGE_CANVAS_SIZE * IMAGE_CANVAS_SIZE;
+  const cumulative = new Float32Array(pixelCount);
+  let total = 0;
+  for (let p = 0; p < pixelCount; p++) {
+    const i = p * 4;
+    const alpha = data[i + 3] / 255;
+    if (alpha >= target.alphaThreshold) {
+      total += target.brightnessDensity ? alpha * luminance(data[i], data[i + 1], data[i + 2]) : alpha;
+    }
+    cumulative[p] = total;
+  }
+
+  if (total === 0) return { positions, colors };
+
+  const color = new THREE.Color();
+  for (let n = 0; n < count; n++) {
+    // Binary search for the pixel owning this share of the total weight
+    const pick = random() * total;
+    let low = 0;
+    let high = pixelCount - 1;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (cumulative[mid] > pick) high = mid;
+      else low = mid + 1;
+    }
+
+    const x = low % IMAGE_CANVAS_SIZE;
+    const y = Math.floor(low / IMAGE_CANVAS_SIZE);
+    const i = low * 4;
+    const n3 = n * 3;
+    positions[n3] = (x - IMAGE_CANVAS_SIZE / 2) * IMAGE_WORLD_SCALE + (random() - 0.5) * JITTER;
+    positions[n3 + 1] = -(y - IMAGE_CANVAS_SIZE / 2) * IMAGE_WORLD_SCALE + (random() - 0.5) * JITTER;
+    positions[n3 + 2] = (luminance(data[i], data[i + 1], data[i + 2]) - 0.5) * target.depth + (random() - 0.5) * 2;
+
+    // Canvas pixels are sRGB; vertex colours are linear
+    color.setRGB(data[i] / 255, data[i + 1] / 255, data[i + 2] / 255, THREE.SRGBColorSpace);
+    colors[n3] = color.r;
+    colors[n3 + 1] = color.g;
+    colors[n3 + 2] = color.b;
+  }
+
+  return { positions, colors };
+};
@@ -0,0 +1,27 @@
+import { EffectType } from '../../types';
+import { registerEffect } from './registry';
+import { GALAXY_PARAMS, GalaxyEffect } from './galaxy';
+import { WAVE_PARAMS, WaveEffect } from './wave';
+import { RAIN_PARAMS, RainEffect } from './rain';
+import { SPHERE_PARAMS, SphereEffect } from './sphere';
+import { CreativeTextEffect, DEFAULT_MESSAGE as TEXT_MESSAGE } from './creativeText';
+import { HEART_FIREWORK_PARAMS, HeartFireworkEffect } from './heartFirework';
+import { CAT_CAKE_PARAMS, CatCakeEffect, DEFAULT_MESSAGE as CAKE_MESSAGE } from './catCake';
+import { SequenceEffect, DEFAULT_MESSAGE as SEQUENCE_MESSAGE } from './sequence';
+import { HAPPY_BIRTHDAY } from '../tunes';
+
+// Built-in effects. New effects only need a module and an entry here.
+registerEffect({ id: EffectType.GALAXY, name: '星系 (Galaxy)', category: 'basic', vision: 'hand', params: GALAXY_PARAMS, face: true, create: () => new GalaxyEffect() });
+registerEffect({ id: EffectType.WAVE, name: '波浪 (Wave)', category: 'basic', vision: 'none', params: WAVE_PARAMS, create: () => new WaveEffect() });
+registerEffect({ id: EffectType.RAIN, name: '雨滴 (Rain)', category: 'basic', vision: 'none', params: RAIN_PARAMS, create: () => new RainEffect() });
+registerEffect({ id: EffectType.SPHERE, name: '球体 (Sphere)', category: 'basic', vision: 'none', params: SPHERE_PARAMS, create: () => new SphereEffect() });
+registerEffect({ id: EffectType.CREATIVE_TEXT, name: '✌️ 比耶', category: 'creative', vision: 'hand', defaultText: TEXT_MESSAGE, acceptsShapeTargets: true, create: () => new CreativeTextEffect() });
+registerEffect({ id: EffectType.CREATIVE_HEART_FIREWORK, name: '✊ 握拳', category: 'creative', vision: 'hand', params: HEART_FIREWORK_PARAMS, create: () => new HeartFireworkEffect() });
+registerEffect({ id: EffectType.CREATIVE_CAT_CAKE, name: '🐱 猫咪', category: 'creative', vision: 'object', defaultText: CAKE_MESSAGE, params: CAT_CAKE_PARAMS, tunes: { morph: { notation: HAPPY_BIRTHDAY } }, microphone: true, create: () => new CatCakeEffect() });
+registerEffect({ id: EffectType.MORPH_SEQUENCE, name: '🎞️ 变形序列', category: 'creative', vision: 'none', defaultText: SEQUENCE_MESSAGE, acceptsShapeTargets: true, usesTimeline: true, create: () => new SequenceEffect() });
+
+export { registerEffect, getEffectDefinition, listEffects } from './registry';
+export { DEFAULT_TEXT_STYLE, PointsEffect, TEXT_STYLE_RANGES } from './shared';
+export { DEFAULT_IMAGE_TARGET, readFileAsDataUrl } from './imageTarget';
+export { ModelTargetError, checkTargetModel, modelFormatFromName } from './modelTarget';
+export { DEFAULT_TIMELINE } from './sequence';
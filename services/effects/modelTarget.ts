@@ -0,0 +1,190 @@
+import * as THREE from 'three';
+import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js';
+import { PLYLoader } from 'three/examples/jsm/loaders/PLYLoader.js';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { MeshSurfaceSampler } from 'three/examples/jsm/math/MeshSurfaceSampler.js';
+import { ModelFormat, ModelTarget } from '../../types';
+import { Random } from '../random';
+
+// Samples the surfaces of OBJ / PLY / glTF meshes into morph target positions
+// and colours, area-weighted across every mesh in the file.
+
+// Largest dimension of the model after fitting, in world units
+const MODEL_SIZE = 45;
+
+const FORMAT_EXTENSIONS: Record<string, ModelFormat> = {
+  obj: 'obj',
+  ply: 'ply',
+  gltf: 'gltf',
+  glb: 'gltf'
+};
+
+// Thrown for models that can't be turned into a target, with a message for the user.
+export class ModelTargetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ModelTargetError';
+  }
+}
+
+export const modelFormatFromName = (name: string): ModelFormat | null =>
+  FORMAT_EXTENSIONS[name.split('.').pop()?.toLowerCase() ?? ''] ?? null;
+
+export const loadTargetModel = async ({ src, format }: ModelTarget): Promise<THREE.Object3D> => {
+  const response = await fetch(src);
+  if (!response.ok) throw new Error(`Failed to load model target: HTTP ${response.status}`);
+
+  switch (format) {
+    case 'obj':
+      return new OBJLoader().parse(await response.text());
+    case 'ply': {
+      const geometry = new PLYLoader().parse(await response.arrayBuffer());
+      // PLY files without faces are point clouds
+      return geometry.index
+        ? new THREE.Mesh(geometry, new THREE.MeshBasicMaterial())
+        : new THREE.Points(geometry, new THREE.PointsMaterial());
+    }
+    case 'gltf':
+      return (await new GLTFLoader().parseAsync(await response.arrayBuffer(), '')).scene;
+  }
+};
+
+// Texture pixels read back once per texture for colour lookups.
+const readTexturePixels = (texture: THREE.Texture) => {
+  const image = texture.image as CanvasImageSource & { width: number; height: number };
+  if (!image?.width || !image?.height) return null;
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.drawImage(image, 0, 0);
+  return { data: ctx.getImageData(0, 0, image.width, image.height).data, width: image.width, height: image.height, flipY: texture.flipY };
+};
+
+type TexturePixels = NonNullable<ReturnType<typeof readTexturePixels>>;
+
+const sampleTexture = (pixels: TexturePixels, uv: THREE.Vector2, target: THREE.Color) => {
+  const u = uv.x - Math.floor(uv.x);
+  const v = uv.y - Math.floor(uv.y);
+  const x = Math.min(pixels.width - 1, Math.floor(u * pixels.width));
+  const y = Math.min(pixels.height - 1, Math.floor((pixels.flipY ? 1 - v : v) * pixels.height));
+  const i = (y * pixels.width + x) * 4;
+  return target.setRGB(pixels.data[i] / 255, pixels.data[i + 1] / 255, pixels.data[i + 2] / 255, THREE.SRGBColorSpace);
+};
+
+interface SurfaceSource {
+  sampler: MeshSurfaceSampler | null;
+  // Point clouds have no area; their vertices are picked directly
+  points: THREE.BufferAttribute | null;
+  pointColors: THREE.BufferAttribute | null;
+  weight: number;
+  hasVertexColors: boolean;
+  baseColor: THREE.Color;
+  texture: TexturePixels | null;
+}
+
+const collectSources = (root: THREE.Object3D, random: Random): SurfaceSource[] => {
+  root.updateMatrixWorld(true);
+  const textures = new Map<THREE.Texture, TexturePixels | null>();
+  const sources: SurfaceSource[] = [];
+
+  root.traverse((object: THREE.Object3D) => {
+    if (!(object instanceof THREE.Mesh) && !(object instanceof THREE.Points)) return;
+    // Bake the world transform so every part lands where the file placed it
+    const geometry: THREE.BufferGeometry = object.geometry.clone().applyMatrix4(object.matrixWorld);
+    const material = Array.isArray(object.material) ? object.material[0] : object.material;
+    // Texture colours need uvs to look up
+    const map: THREE.Texture | null = geometry.getAttribute('uv') ? material?.map ?? null : null;
+    if (map && !textures.has(map)) textures.set(map, readTexturePixels(map));
+
+    const source: SurfaceSource = {
+      sampler: null,
+      points: null,
+      pointColors: null,
+      weight: 0,
+      hasVertexColors: !!geometry.getAttribute('color'),
+      baseColor: material?.color ? material.color.clone() : new THREE.Color(1, 1, 1),
+      texture: map ? textures.get(map) ?? null : null
+    };
+
+    if (object instanceof THREE.Mesh) {
+      const sampler = new MeshSurfaceSampler(new THREE.Mesh(geometry)).setRandomGenerator(random).build();
+      source.sampler = sampler;
+      source.weight = sampler.distribution[sampler.distribution.length - 1] ?? 0;
+    } else {
+      source.points = geometry.getAttribute('position');
+      source.pointColors = geometry.getAttribute('color') ?? null;
+      // Give point clouds the weight of a surface of similar extent
+      geometry.computeBoundingBox();
+      const size = geometry.boundingBox.getSize(new THREE.Vector3());
+      source.weight = 2 * (size.x * size.y + size.y * size.z + size.z * size.x);
+    }
+    if (source.weight > 0) sources.push(source);
+  });
+
+  return sources;
+};
+
+// Throws ModelTargetError when the model has no surface or points to sample.
+export const generateModelPositions = (root: THREE.Object3D, count: number, random: Random, sampleColors: boolean) => {
+  const positions = new Float32Array(count * 3);
+  const colors = new Float32Array(count * 3);
+  const sources = collectSources(root, random);
+  const totalWeight = sources.reduce((sum, source) => sum + source.weight, 0);
+  if (totalWeight === 0) throw new ModelTargetError('模型中没有可采样的表面');
+
+  const position = new THREE.Vector3();
+  const normal = new THREE.Vector3();
+  const color = new THREE.Color();
+  const textureColor = new THREE.Color();
+  const uv = new THREE.Vector2();
+  const bounds = new THREE.Box3();
+
+  for (let n = 0; n < count; n++) {
+    // Pick a part by area, then a point on it
+    let pick = random() * totalWeight;
+    const source = sources.find(candidate => (pick -= candidate.weight) < 0) ?? sources[sources.length - 1];
+
+    color.copy(source.baseColor);
+    if (source.sampler) {
+      source.sampler.sample(position, normal, source.hasVertexColors ? textureColor : undefined, uv);
+      if (source.hasVertexColors) color.multiply(textureColor);
+      if (source.texture) color.multiply(sampleTexture(source.texture, uv, textureColor));
+    } else if (source.points) {
+      const index = Math.floor(random() * source.points.count);
+      position.fromBufferAttribute(source.points, index);
+      if (source.pointColors) color.multiply(textureColor.fromBufferAttribute(source.pointColors, index));
+    }
+
+    const n3 = n * 3;
+    positions[n3] = position.x;
+    positions[n3 + 1] = position.y;
+    positions[n3 + 2] = position.z;
+    bounds.expandByPoint(position);
+
+    if (sampleColors) {
+      colors[n3] = color.r;
+      colors[n3 + 1] = color.g;
+      colors[n3 + 2] = color.b;
+    }
+  }
+
+  // Centre on the origin and scale to a common size
+  const centre = bounds.getCenter(new THREE.Vector3());
+  const size = bounds.getSize(new THREE.Vector3());
+  const scale = MODEL_SIZE / (Math.max(size.x, size.y, size.z) || 1);
+  for (let i = 0; i < positions.length; i += 3) {
+    positions[i] = (positions[i] - centre.x) * scale;
+    positions[i + 1] = (positions[i + 1] - centre.y) * scale;
+    positions[i + 2] = (positions[i + 2] - centre.z) * scale;
+  }
+
+  return { positions, colors };
+};
+
+// Loads and samples the model once, so a file that can't be used is reported
+// when it is picked rather than left as an empty target. Throws.
+export const checkTargetModel = async (target: ModelTarget) => {
+  generateModelPositions(await loadTargetModel(target), 1, Math.random, false);
+};
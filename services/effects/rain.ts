@@ -0,0 +1,59 @@
+import * as THREE from 'three';
+import { EffectConfig, EffectContext, EffectType, ParamSchema } from '../../types';
+import { PointsEffect, frameCount } from './shared';
+
+export const RAIN_PARAMS = {
+  area: { type: 'number', label: '范围', group: '形状', min: 50, max: 400, step: 10, default: 200 },
+  opacity: { type: 'number', label: '不透明度', group: '外观', min: 0.1, max: 1, step: 0.05, default: 0.8, live: true }
+} satisfies ParamSchema;
+
+export class RainEffect extends PointsEffect<typeof RAIN_PARAMS> {
+  private velocities = new Float32Array(0);
+
+  constructor() {
+    super(EffectType.RAIN, RAIN_PARAMS);
+  }
+
+  public init(scene: THREE.Scene, config: EffectConfig, context: EffectContext) {
+    this.attach(config, context);
+
+    const geometry = new THREE.BufferGeometry();
+    const positions = new Float32Array(config.count * 3);
+    this.velocities = new Float32Array(config.count);
+
+    const { area } = this.params;
+    for (let i = 0; i < config.count; i++) {
+      const i3 = i * 3;
+      positions[i3] = (this.random() - 0.5) * area;
+      positions[i3 + 1] = (this.random() - 0.5) * area;
+      positions[i3 + 2] = (this.random() - 0.5) * area;
+      this.velocities[i] = this.random() * 0.5 + 0.5;
+    }
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    const material = new THREE.PointsMaterial({
+      size: config.size,
+      color: config.color,
+      transparent: true,
+      opacity: this.params.opacity,
+      blending: THREE.AdditiveBlending,
+      depthWrite: false
+    });
+    this.addPoints(scene, geometry, material);
+  }
+
+  public update(time: number, deltaTime: number) {
+    if (!this.particles) return;
+    const frames = frameCount(deltaTime);
+    const half = this.params.area / 2;
+    this.particles.material.opacity = this.params.opacity;
+    const positions = this.particles.geometry.attributes.position.array as Float32Array;
+    for (let i = 0; i < this.config.count; i++) {
+      const i3 = i * 3;
+      positions[i3 + 1] -= this.velocities[i] * this.config.speed * frames;
+      if (positions[i3 + 1] < -half) {
+        positions[i3 + 1] = half;
+      }
+    }
+    this.particles.geometry.attributes.position.needsUpdate = true;
+  }
+}
@@ -0,0 +1,18 @@
+import { EffectCategory, EffectDefinition, EffectId } from '../../types';
+
+const definitions = new Map<EffectId, EffectDefinition>();
+
+export const registerEffect = (definition: EffectDefinition) => {
+  if (definitions.has(definition.id)) {
+    throw new Error(`Effect "${definition.id}" is already registered`);
+  }
+  definitions.set(definition.id, definition);
+};
+
+export const getEffectDefinition = (id: EffectId): EffectDefinition | undefined => definitions.get(id);
+
+// Effects in registration order, optionally limited to one category.
+export const listEffects = (category?: EffectCategory): EffectDefinition[] => {
+  const all = Array.from(definitions.values());
+  return category ? all.filter(definition => definition.category === category) : all;
+};
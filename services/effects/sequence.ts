@@ -0,0 +1,189 @@
+import * as THREE from 'three';
+import { EffectConfig, EffectContext, MorphKeyframe, MorphShape, MorphTimeline, TimelineControl } from '../../types';
+import { keyframeStart, normalizeTime, particleProgress, sampleTimeline, timelineDuration } from '../timeline';
+import {
+  PointsEffect,
+  generateCanvasPositions,
+  generateGalaxyLayout,
+  generateHeartLayout,
+  generateSphereLayout
+} from './shared';
+import { loadShapeTarget } from './shapeTarget';
+
+export const DEFAULT_MESSAGE = '你好';
+
+export const DEFAULT_TIMELINE: MorphTimeline = {
+  loop: true,
+  keyframes: [
+    { id: 'galaxy', shape: 'galaxy', transition: 2, hold: 3, easing: 'easeInOut', stagger: 0.3 },
+    { id: 'text', shape: 'text', transition: 2, hold: 3, easing: 'easeOut', stagger: 0.5 },
+    { id: 'heart', shape: 'heart', transition: 1.5, hold: 3, easing: 'backOut', stagger: 0.2 },
+    { id: 'sphere', shape: 'sphere', transition: 2, hold: 2, easing: 'easeInOut', stagger: 0.6 }
+  ]
+};
+
+interface ShapeBuffers {
+  positions: Float32Array;
+  colors: Float32Array;
+}
+
+const solidColors = (count: number, color: string) => {
+  const colors = new Float32Array(count * 3);
+  const { r, g, b } = new THREE.Color(color);
+  for (let i = 0; i < count * 3; i += 3) {
+    colors[i] = r;
+    colors[i + 1] = g;
+    colors[i + 2] = b;
+  }
+  return colors;
+};
+
+// Plays config.timeline: morphs through its keyframes with per-keyframe
+// easing, stagger and colour, looping or stopping on the last one.
+export class SequenceEffect extends PointsEffect {
+  private sequence: MorphTimeline = DEFAULT_TIMELINE;
+  // Target buffers per keyframe (with the keyframe's colour applied)
+  private targets: ShapeBuffers[] = [];
+  // Per-particle 0..1 position in the stagger order
+  private delays = new Float32Array(0);
+  private playhead = 0;
+  // Where the particles were when jumpTo was called; replaces the `from` shape
+  // until the jumped-to keyframe's segment is left
+  private snapshot: (ShapeBuffers & { keyframe: number }) | null = null;
+  private loadToken = 0;
+  protected rebuildKeys: (keyof EffectConfig)[] = ['count', 'seed', 'text', 'image', 'model', 'timeline'];
+
+  public timeline: TimelineControl = {
+    getPosition: () => ({
+      time: normalizeTime(this.sequence, this.playhead),
+      duration: timelineDuration(this.sequence),
+      keyframe: sampleTimeline(this.sequence, this.playhead).to
+    }),
+    seek: (time: number) => {
+      this.playhead = normalizeTime(this.sequence, time);
+      this.snapshot = null;
+    },
+    jumpTo: (index: number) => {
+      if (!this.particles || index < 0 || index >= this.sequence.keyframes.length) return;
+      const geometry = this.particles.geometry;
+      this.snapshot = {
+        positions: (geometry.attributes.position.array as Float32Array).slice(),
+        colors: (geometry.attributes.color.array as Float32Array).slice(),
+        keyframe: index
+      };
+      this.playhead = keyframeStart(this.sequence, index);
+    }
+  };
+
+  public init(scene: THREE.Scene, config: EffectConfig, context: EffectContext) {
+    this.attach(config, context);
+
+    const count = config.count;
+    this.sequence = config.timeline?.keyframes.length ? config.timeline : DEFAULT_TIMELINE;
+    // A looping sequence starts with its first shape already formed
+    this.playhead = this.sequence.loop ? Math.max(0, this.sequence.keyframes[0].transition) : 0;
+    this.snapshot = null;
+
+    // Each shape is generated once, however many keyframes use it
+    const shapes = new Map<MorphShape, ShapeBuffers>();
+    const shapeFor = (shape: MorphShape): ShapeBuffers => {
+      let buffers = shapes.get(shape);
+      if (!buffers) {
+        buffers = this.generateShape(shape);
+        shapes.set(shape, buffers);
+      }
+      return buffers;
+    };
+    this.targets = this.sequence.keyframes.map(keyframe => this.withKeyframeColor(shapeFor(keyframe.shape), keyframe));
+
+    this.delays = new Float32Array(count);
+    for (let i = 0; i < count; i++) this.delays[i] = this.random();
+
+    // Image and model shapes start out as text and are swapped in once loaded
+    const token = ++this.loadToken;
+    (['image', 'model'] as const).forEach(shape => {
+      if (!shapes.has(shape)) return;
+      loadShapeTarget(shape === 'image' ? { image: config.image } : { model: config.model }, count, config.seed)
+        ?.then(target => {
+          if (token !== this.loadToken || !this.particles) return;
+          const buffers = { positions: target.positions, colors: target.colors ?? solidColors(count, config.color) };
+          this.sequence.keyframes.forEach((keyframe, index) => {
+            if (keyframe.shape === shape) this.targets[index] = this.withKeyframeColor(buffers, keyframe);
+          });
+        })
+        .catch(error => console.error(error));
+    });
+
+    const geometry = new THREE.BufferGeometry();
+    const first = this.targets[0];
+    geometry.setAttribute('position', new THREE.BufferAttribute(first.positions.slice(), 3));
+    geometry.setAttribute('color', new THREE.BufferAttribute(first.colors.slice(), 3));
+
+    const material = new THREE.PointsMaterial({
+      size: config.size,
+      sizeAttenuation: true,
+      depthWrite: false,
+      blending: THREE.AdditiveBlending,
+      vertexColors: true,
+      map: this.spriteTexture('disc'),
+      transparent: true
+    });
+
+    this.addPoints(scene, geometry, material);
+  }
+
+  // Keyframe colours are baked into the targets
+  protected applyColor() {
+    this.rebuild(this.config);
+  }
+
+  // Regenerated targets pick up where the playhead was
+  protected rebuild(config: EffectConfig) {
+    const playhead = this.playhead;
+    super.rebuild(config);
+    this.playhead = normalizeTime(this.sequence, playhead);
+  }
+
+  private generateShape(shape: MorphShape): ShapeBuffers {
+    const { count, color } = this.config;
+    switch (shape) {
+      case 'galaxy':
+        return generateGalaxyLayout(count, color, this.random);
+      case 'heart':
+        return generateHeartLayout(count, color, this.random);
+      case 'sphere':
+        return { positions: generateSphereLayout(count, 30, this.random), colors: solidColors(count, color) };
+      case 'text':
+      case 'image':
+      case 'model':
+        return { positions: generateCanvasPositions(this.textStyle(DEFAULT_MESSAGE), count, this.random), colors: solidColors(count, color) };
+    }
+  }
+
+  private withKeyframeColor(buffers: ShapeBuffers, keyframe: MorphKeyframe): ShapeBuffers {
+    return keyframe.color ? { positions: buffers.positions, colors: solidColors(this.config.count, keyframe.color) } : buffers;
+  }
+
+  public update(time: number, deltaTime: number) {
+    if (!this.particles || this.targets.length === 0) return;
+    this.playhead += deltaTime * this.config.speed;
+
+    const { from, to, progress } = sampleTimeline(this.sequence, this.playhead);
+    if (this.snapshot && this.snapshot.keyframe !== to) this.snapshot = null;
+    const source = this.snapshot ?? this.targets[from];
+    const target = this.targets[to];
+    const { stagger, easing } = this.sequence.keyframes[to];
+
+    const pos = this.particles.geometry.attributes.position.array as Float32Array;
+    const col = this.particles.geometry.attributes.color.array as Float32Array;
+    for (let i = 0; i < this.config.count; i++) {
+      const p = particleProgress(progress, this.delays[i], stagger, easing);
+      for (let k = i * 3; k < i * 3 + 3; k++) {
+        pos[k] = source.positions[k] + (target.positions[k] - source.positions[k]) * p;
+        col[k] = source.colors[k] + (target.colors[k] - source.colors[k]) * p;
+      }
+    }
+    this.particles.geometry.attributes.position.needsUpdate = true;
+    this.particles.geometry.attributes.color.needsUpdate = true;
+  }
+}
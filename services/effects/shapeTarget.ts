@@ -0,0 +1,33 @@
+import { ImageTarget, ModelTarget } from '../../types';
+import { createRandom } from '../random';
+import { generateImagePositions, loadTargetImage } from './imageTarget';
+import { generateModelPositions, loadTargetModel } from './modelTarget';
+
+export interface ShapeTarget {
+  positions: Float32Array;
+  // Null when the target should keep the effect's own colour
+  colors: Float32Array | null;
+}
+
+// Load and sample a model (preferred) or image target; null if neither is set.
+// Sampling uses its own random stream, so the result doesn't depend on when
+// the load finished.
+export const loadShapeTarget = (
+  { model, image }: { model?: ModelTarget; image?: ImageTarget },
+  count: number,
+  seed: number
+): Promise<ShapeTarget> | null => {
+  if (model) {
+    return loadTargetModel(model).then(root => {
+      const target = generateModelPositions(root, count, createRandom(seed), model.sampleColors);
+      return { positions: target.positions, colors: model.sampleColors ? target.colors : null };
+    });
+  }
+  if (image) {
+    return loadTargetImage(image.src).then(loaded => {
+      const target = generateImagePositions(loaded, count, createRandom(seed), image);
+      return { positions: target.positions, colors: image.sampleColors ? target.colors : null };
+    });
+  }
+  return null;
+};
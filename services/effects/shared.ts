@@ -0,0 +1,430 @@
+import * as THREE from 'three';
+import { EffectConfig, EffectContext, EffectId, FaceInput, HandInput, ObjectInput, ParamSchema, ParamValues, ParticleSnapshot, ParticleSystem, TextStyle } from '../../types';
+import { REFERENCE_FPS } from '../clock';
+import { readParams } from '../params';
+import { Random, createRandom } from '../random';
+import { SpriteName, getSpriteTexture } from '../sprites';
+
+export const GALAXY_ROTATION_RATE = 0.002;
+export const GALAXY_OUTSIDE_COLOR = 0x1b3984;
+
+// The per-frame factors in the effects were tuned at 60 fps; these rescale them to deltaTime.
+export const frameCount = (deltaTime: number) => deltaTime * REFERENCE_FPS;
+export const damp = (factor: number, deltaTime: number) => 1 - Math.pow(1 - factor, frameCount(deltaTime));
+
+export const smoothstep = (edge0: number, edge1: number, x: number) => {
+  const t = Math.min(1, Math.max(0, (x - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+};
+
+// Rough half-extent of the visible z = 0 plane for the default camera.
+const VIEW_WORLD_EXTENT = { x: 40, y: 25 };
+
+// Map normalized hand, face and object positions onto the z = 0 plane of the scene.
+export const handToWorld = (hand: HandInput) => ({
+  x: hand.position.x * VIEW_WORLD_EXTENT.x,
+  y: hand.position.y * VIEW_WORLD_EXTENT.y
+});
+
+export const faceToWorld = (face: FaceInput) => ({
+  x: face.position.x * VIEW_WORLD_EXTENT.x,
+  y: face.position.y * VIEW_WORLD_EXTENT.y
+});
+
+// Objects by the centre of their bounding box
+export const objectToWorld = (object: ObjectInput) => ({
+  x: object.center.x * VIEW_WORLD_EXTENT.x,
+  y: object.center.y * VIEW_WORLD_EXTENT.y
+});
+
+// Applied to the running material and update loop without regenerating anything
+const LIVE_CONFIG_KEYS: (keyof EffectConfig)[] = ['size', 'speed', 'color', 'sprite', 'spriteFalloff'];
+
+const changedConfigKeys = (previous: EffectConfig, next: EffectConfig) =>
+  (Object.keys({ ...previous, ...next }) as (keyof EffectConfig)[]).filter(key => previous[key] !== next[key]);
+
+// Common lifecycle for effects rendered as a single THREE.Points cloud.
+// Effects with a parameter schema pass it, with their id, to the constructor
+// and read the current values from `params`.
+export abstract class PointsEffect<S extends ParamSchema = {}> implements ParticleSystem {
+  protected particles: THREE.Points | null = null;
+  protected config!: EffectConfig;
+  protected params!: ParamValues<S>;
+  protected context!: EffectContext;
+  protected random!: Random;
+  // Config keys regenerated in place by rebuild(); changes to any others recreate the effect.
+  // Non-live parameters are always rebuilt in place.
+  protected rebuildKeys: (keyof EffectConfig)[] = ['count', 'seed'];
+  private scene: THREE.Scene | null = null;
+  private spriteFallback: SpriteName = 'disc';
+
+  constructor(private readonly effectId?: EffectId, private readonly schema?: S) {}
+
+  public abstract init(scene: THREE.Scene, config: EffectConfig, context: EffectContext): void;
+  public abstract update(time: number, deltaTime: number): void;
+
+  // Every init starts here so the effect's random stream restarts from config.seed.
+  protected attach(config: EffectConfig, context: EffectContext) {
+    this.config = config;
+    this.params = this.readOwnParams(config);
+    this.context = context;
+    this.random = createRandom(config.seed);
+  }
+
+  private readOwnParams(config: EffectConfig): ParamValues<S> {
+    return readParams(this.schema ?? ({} as S), this.effectId ? config.params?.[this.effectId] : undefined);
+  }
+
+  // The sprite picked in config, or the effect's own look when none is set.
+  protected spriteTexture(fallback: SpriteName) {
+    this.spriteFallback = fallback;
+    return getSpriteTexture(this.config.sprite ?? fallback, this.config.spriteFalloff);
+  }
+
+  // Text target from config, falling back to the effect's own message.
+  protected textStyle(defaultContent: string): TextStyle {
+    const style = { ...DEFAULT_TEXT_STYLE, content: defaultContent, ...this.config.text };
+    return style.content.trim() ? style : { ...style, content: defaultContent };
+  }
+
+  protected addPoints(scene: THREE.Scene, geometry: THREE.BufferGeometry, material: THREE.Material) {
+    this.scene = scene;
+    this.particles = new THREE.Points(geometry, material);
+    scene.add(this.particles);
+  }
+
+  public updateConfig(config: EffectConfig): boolean {
+    if (!this.particles) return false;
+    // Only this effect's own parameters matter, and only non-live ones need a rebuild
+    const params = this.readOwnParams(config);
+    const changed = changedConfigKeys(this.config, config).filter(key => key !== 'params');
+    const rebuildParams = Object.keys(params).some(key => params[key] !== this.params[key] && !this.schema[key].live);
+    if (!rebuildParams && changed.every(key => LIVE_CONFIG_KEYS.includes(key))) {
+      this.config = config;
+      this.params = params;
+      this.applyLiveConfig(changed);
+      return true;
+    }
+    if (!changed.every(key => LIVE_CONFIG_KEYS.includes(key) || this.rebuildKeys.includes(key))) return false;
+    this.rebuild(config);
+    return true;
+  }
+
+  private applyLiveConfig(changed: (keyof EffectConfig)[]) {
+    const material = this.particles.material;
+    if (changed.includes('size')) material.size = this.config.size;
+    // Effects drawn without a sprite keep drawing squares
+    if ((changed.includes('sprite') || changed.includes('spriteFalloff')) && material.map) {
+      material.map = this.spriteTexture(this.spriteFallback);
+    }
+    if (changed.includes('color')) this.applyColor();
+  }
+
+  // Tinted effects follow config.color directly; vertex-coloured ones override this.
+  protected applyColor() {
+    const material = this.particles.material;
+    if (!material.vertexColors) material.color.set(this.config.color);
+  }
+
+  // Re-inits for the new config, then carries the current particles (up to
+  // the new count) and transform over so they move on from where they are.
+  protected rebuild(config: EffectConfig) {
+    const previous = this.particles;
+    const scene = this.scene;
+    this.particles = null;
+    this.init(scene, config, this.context);
+    if (!previous) return;
+
+    if (this.particles) {
+      ['position', 'color'].forEach(name => {
+        const from = previous.geometry.attributes[name];
+        const to = this.particles.geometry.attributes[name];
+        if (!from || !to) return;
+        to.array.set(from.array.subarray(0, Math.min(from.array.length, to.array.length)));
+        to.needsUpdate = true;
+      });
+      this.particles.position.copy(previous.position);
+      this.particles.rotation.copy(previous.rotation);
+      this.particles.scale.copy(previous.scale);
+      this.particles.visible = previous.visible;
+    }
+    scene.remove(previous);
+    previous.geometry.dispose();
+    previous.material.dispose();
+  }
+
+  public getSnapshot(): ParticleSnapshot | null {
+    if (!this.particles) return null;
+    const { geometry, material } = this.particles;
+    const source = geometry.attributes.position;
+    const vertexColors = material.vertexColors ? geometry.attributes.color : null;
+    const tint: THREE.Color = material.color ?? new THREE.Color(1, 1, 1);
+
+    this.particles.updateMatrix();
+    const count = source.count;
+    const positions = new Float32Array(count * 3);
+    const colors = new Float32Array(count * 3);
+    const point = new THREE.Vector3();
+    for (let i = 0; i < count; i++) {
+      const i3 = i * 3;
+      point.fromBufferAttribute(source, i).applyMatrix4(this.particles.matrix);
+      positions[i3] = point.x;
+      positions[i3 + 1] = point.y;
+      positions[i3 + 2] = point.z;
+      colors[i3] = (vertexColors ? vertexColors.getX(i) : 1) * tint.r;
+      colors[i3 + 1] = (vertexColors ? vertexColors.getY(i) : 1) * tint.g;
+      colors[i3 + 2] = (vertexColors ? vertexColors.getZ(i) : 1) * tint.b;
+    }
+    return { count, positions, colors };
+  }
+
+  public setVisible(visible: boolean) {
+    if (this.particles) this.particles.visible = visible;
+  }
+
+  public cleanup(scene: THREE.Scene) {
+    if (!this.particles) return;
+    scene.remove(this.particles);
+    this.particles.geometry.dispose();
+    if (this.particles.material instanceof THREE.Material) {
+      this.particles.material.dispose();
+    }
+    this.particles = null;
+  }
+}
+
+export interface GalaxyShape {
+  arms: number;
+  radius: number;
+  outsideColor: THREE.ColorRepresentation;
+}
+
+const DEFAULT_GALAXY_SHAPE: GalaxyShape = { arms: 3, radius: 50, outsideColor: GALAXY_OUTSIDE_COLOR };
+
+// Spiral galaxy (three arms by default) used as the idle layout of several effects.
+export const generateGalaxyLayout = (count: number, color: string, random: Random, shape: GalaxyShape = DEFAULT_GALAXY_SHAPE) => {
+  const positions = new Float32Array(count * 3);
+  const colors = new Float32Array(count * 3);
+  const colorInside = new THREE.Color(color);
+  const colorOutside = new THREE.Color(shape.outsideColor);
+  const arms = Math.max(1, Math.round(shape.arms));
+
+  for (let i = 0; i < count; i++) {
+    const i3 = i * 3;
+    const radius = random() * shape.radius;
+    const spinAngle = radius * 0.5;
+    const branchAngle = (i % arms) * ((Math.PI * 2) / arms);
+    const randomX = Math.pow(random(), 3) * (random() < 0.5 ? 1 : -1) * (0.5 * radius);
+    const randomY = Math.pow(random(), 3) * (random() < 0.5 ? 1 : -1) * (0.5 * radius);
+    const randomZ = Math.pow(random(), 3) * (random() < 0.5 ? 1 : -1) * (0.5 * radius);
+
+    positions[i3] = Math.cos(branchAngle + spinAngle) * radius + randomX;
+    positions[i3 + 1] = randomY;
+    positions[i3 + 2] = Math.sin(branchAngle + spinAngle) * radius + randomZ;
+
+    const mixedColor = colorInside.clone().lerp(colorOutside, radius / shape.radius);
+    colors[i3] = mixedColor.r;
+    colors[i3 + 1] = mixedColor.g;
+    colors[i3 + 2] = mixedColor.b;
+  }
+
+  return { positions, colors };
+};
+
+// Parametric heart, shaded from the base colour to pink towards the top.
+export const generateHeartLayout = (count: number, color: string, random: Random) => {
+  const positions = new Float32Array(count * 3);
+  const colors = new Float32Array(count * 3);
+  const colorBase = new THREE.Color(color);
+  const colorEdge = new THREE.Color(0xff0066);
+  const mixedColor = new THREE.Color();
+
+  for (let i = 0; i < count; i++) {
+    const i3 = i * 3;
+    const t = random() * Math.PI * 2;
+    const thickness = (random() - 0.5) * 4;
+    let x = 16 * Math.pow(Math.sin(t), 3);
+    let y = 13 * Math.cos(t) - 5 * Math.cos(2 * t) - 2 * Math.cos(3 * t) - Math.cos(4 * t);
+    x *= (0.8 + random() * 0.2) * 1.2;
+    y *= (0.8 + random() * 0.2) * 1.2;
+
+    positions[i3] = x;
+    positions[i3 + 1] = y;
+    positions[i3 + 2] = thickness * 2;
+
+    mixedColor.copy(colorBase).lerp(colorEdge, (y + 15) / 30);
+    colors[i3] = mixedColor.r;
+    colors[i3 + 1] = mixedColor.g;
+    colors[i3 + 2] = mixedColor.b;
+  }
+  return { positions, colors };
+};
+
+// Points spread evenly over a sphere surface.
+export const generateSphereLayout = (count: number, radius: number, random: Random) => {
+  const positions = new Float32Array(count * 3);
+  for (let i = 0; i < count; i++) {
+    const i3 = i * 3;
+    const theta = random() * Math.PI * 2;
+    const phi = Math.acos((random() * 2) - 1);
+    positions[i3] = radius * Math.sin(phi) * Math.cos(theta);
+    positions[i3 + 1] = radius * Math.sin(phi) * Math.sin(theta);
+    positions[i3 + 2] = radius * Math.cos(phi);
+  }
+  return positions;
+};
+
+export const DEFAULT_TEXT_STYLE: Omit<TextStyle, 'content'> = {
+  fontFamily: '"Microsoft YaHei", sans-serif',
+  fontWeight: 'bold',
+  fontSize: 80,
+  align: 'center',
+  letterSpacing: 0,
+  lineHeight: 1.2
+};
+
+// Slider ranges, also enforced on imported presets
+export const TEXT_STYLE_RANGES = {
+  fontSize: [20, 200],
+  letterSpacing: [-10, 40],
+  lineHeight: [0.8, 2]
+};
+
+// Text is drawn on a 512px reference canvas; 0.15 world units per reference pixel.
+const TEXT_CANVAS_SIZE = 512;
+const TEXT_WORLD_SCALE = 0.15;
+const TEXT_SAMPLE_STEP = 3;
+// Area the text is fitted into, above any extra drawing
+const TEXT_BOX = { centerY: 100, width: 480, height: 170 };
+// Long strings shrink to fit; the canvas is enlarged instead, up to this factor,
+// so thin strokes still get enough samples.
+const MAX_TEXT_RESOLUTION = 4;
+
+const characterWidths = (ctx: CanvasRenderingContext2D, line: string) =>
+  Array.from(line).map(char => ctx.measureText(char).width);
+
+const lineWidth = (widths: number[], letterSpacing: number) =>
+  widths.reduce((sum, width) => sum + width, 0) + letterSpacing * Math.max(0, widths.length - 1);
+
+// Sample target positions from multi-line text (plus an optional drawing below it).
+export const generateCanvasPositions = (style: TextStyle, count: number, random: Random, drawExtra?: (ctx: CanvasRenderingContext2D, cx: number, cy: number) => void): Float32Array => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return new Float32Array(count * 3);
+
+  const lines = style.content.split('\n');
+  const font = (size: number) => `${style.fontWeight} ${size}px ${style.fontFamily}`;
+
+  // Measure at the requested size, then shrink the whole block to fit the text box
+  ctx.font = font(style.fontSize);
+  const measured = lines.map(line => characterWidths(ctx, line));
+  const blockWidth = Math.max(1, ...measured.map(widths => lineWidth(widths, style.letterSpacing)));
+  const blockHeight = style.fontSize * (1 + (lines.length - 1) * style.lineHeight);
+  const fit = Math.min(1, TEXT_BOX.width / blockWidth, TEXT_BOX.height / blockHeight);
+  const resolution = Math.min(MAX_TEXT_RESOLUTION, Math.max(1, 1 / fit));
+
+  const width = Math.round(TEXT_CANVAS_SIZE * resolution);
+  const height = width;
+  canvas.width = width;
+  canvas.height = height;
+
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, width, height);
+
+  // Everything below is drawn in reference-canvas pixels
+  ctx.scale(resolution, resolution);
+
+  // Draw Text
+  const fontSize = style.fontSize * fit;
+  const letterSpacing = style.letterSpacing * fit;
+  const lineStep = fontSize * style.lineHeight;
+  ctx.fillStyle = '#ffffff';
+  ctx.font = font(fontSize);
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'middle';
+  const left = TEXT_CANVAS_SIZE / 2 - (blockWidth * fit) / 2;
+  const firstLineY = TEXT_BOX.centerY - (lineStep * (lines.length - 1)) / 2;
+
+  lines.forEach((line, row) => {
+    const widths = measured[row].map(w => w * fit);
+    const slack = blockWidth * fit - lineWidth(widths, letterSpacing);
+    let x = left + (style.align === 'center' ? slack / 2 : style.align === 'right' ? slack : 0);
+    Array.from(line).forEach((char, i) => {
+      ctx.fillText(char, x, firstLineY + row * lineStep);
+      x += widths[i] + letterSpacing;
+    });
+  });
+
+  // Draw Extra Graphics
+  if (drawExtra) {
+    drawExtra(ctx, TEXT_CANVAS_SIZE / 2, 300);
+  }
+
+  // Sampling
+  const imageData = ctx.getImageData(0, 0, width, height);
+  const data = imageData.data;
+  const validPoints: { x: number, y: number }[] = [];
+  const worldScale = TEXT_WORLD_SCALE / resolution;
+
+  // Scan
+  for (let y = 0; y < height; y += TEXT_SAMPLE_STEP) {
+    for (let x = 0; x < width; x += TEXT_SAMPLE_STEP) {
+      const i = (y * width + x) * 4;
+      if (data[i] > 100) {
+        validPoints.push({
+          x: (x - width / 2) * worldScale,
+          y: -(y - height / 2) * worldScale
+        });
+      }
+    }
+  }
+
+  const positions = new Float32Array(count * 3);
+  for (let i = 0; i < count; i++) {
+    const i3 = i * 3;
+    const point = validPoints.length > 0 ? validPoints[i % validPoints.length] : { x: 0, y: 0 };
+    positions[i3] = point.x + (random() - 0.5) * 0.5;
+    positions[i3 + 1] = point.y + (random() - 0.5) * 0.5;
+    positions[i3 + 2] = (random() - 0.5) * 2;
+  }
+  return positions;
+};
+
+export const drawLobster = (ctx: CanvasRenderingContext2D, centerX: number, centerY: number) => {
+  ctx.fillStyle = '#ffffff';
+  ctx.beginPath();
+  ctx.ellipse(centerX, centerY, 40, 70, 0, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.beginPath();
+  ctx.moveTo(centerX - 30, centerY + 60);
+  ctx.lineTo(centerX + 30, centerY + 60);
+  ctx.lineTo(centerX, centerY + 120);
+  ctx.fill();
+  ctx.beginPath();
+  ctx.moveTo(centerX - 30, centerY - 60);
+  ctx.lineTo(centerX + 30, centerY - 60);
+  ctx.lineTo(centerX, centerY - 90);
+  ctx.fill();
+  ctx.strokeStyle = '#ffffff';
+  ctx.lineWidth = 4;
+  ctx.beginPath();
+  ctx.moveTo(centerX - 10, centerY - 90);
+  ctx.quadraticCurveTo(centerX - 60, centerY - 150, centerX - 40, centerY - 200);
+  ctx.moveTo(centerX + 10, centerY - 90);
+  ctx.quadraticCurveTo(centerX + 60, centerY - 150, centerX + 40, centerY - 200);
+  ctx.stroke();
+  ctx.beginPath();
+  ctx.moveTo(centerX - 30, centerY - 30);
+  ctx.lineTo(centerX - 80, centerY - 80);
+  ctx.stroke();
+  ctx.beginPath();
+  ctx.ellipse(centerX - 90, centerY - 90, 20, 30, -Math.PI / 4, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.beginPath();
+  ctx.moveTo(centerX + 30, centerY - 30);
+  ctx.lineTo(centerX + 80, centerY - 80);
+  ctx.stroke();
+  ctx.beginPath();
+  ctx.ellipse(centerX + 90, centerY - 90, 20, 30, Math.PI / 4, 0, Math.PI * 2);
+  ctx.fill();
+};
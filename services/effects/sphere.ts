@@ -0,0 +1,42 @@
+import * as THREE from 'three';
+import { EffectConfig, EffectContext, EffectType, ParamSchema } from '../../types';
+import { PointsEffect, generateSphereLayout } from './shared';
+
+export const SPHERE_PARAMS = {
+  radius: { type: 'number', label: '半径', group: '形状', min: 10, max: 80, step: 1, default: 40 },
+  pulse: { type: 'number', label: '呼吸幅度', group: '运动', min: 0, max: 0.3, step: 0.01, default: 0.05, live: true },
+  audioPulse: { type: 'number', label: '低音脉动', group: '音频', min: 0, max: 0.5, step: 0.01, default: 0.15, live: true }
+} satisfies ParamSchema;
+
+export class SphereEffect extends PointsEffect<typeof SPHERE_PARAMS> {
+  constructor() {
+    super(EffectType.SPHERE, SPHERE_PARAMS);
+  }
+
+  public init(scene: THREE.Scene, config: EffectConfig, context: EffectContext) {
+    this.attach(config, context);
+
+    const geometry = new THREE.BufferGeometry();
+    const positions = generateSphereLayout(config.count, this.params.radius, this.random);
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    const material = new THREE.PointsMaterial({
+      size: config.size,
+      color: config.color,
+      map: this.spriteTexture('disc'),
+      transparent: true,
+      blending: THREE.AdditiveBlending,
+      depthWrite: false
+    });
+    this.addPoints(scene, geometry, material);
+  }
+
+  public update(time: number, deltaTime: number) {
+    if (this.particles) {
+      this.particles.rotation.y += deltaTime * this.config.speed * 0.2;
+      this.particles.rotation.z += deltaTime * this.config.speed * 0.1;
+      const { bass } = this.context.getAudio();
+      const scale = 1 + Math.sin(time * 2) * this.params.pulse + bass * this.params.audioPulse;
+      this.particles.scale.set(scale, scale, scale);
+    }
+  }
+}
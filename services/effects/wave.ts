@@ -0,0 +1,65 @@
+import * as THREE from 'three';
+import { EffectConfig, EffectContext, EffectType, ParamSchema } from '../../types';
+import { PointsEffect } from './shared';
+
+export const WAVE_PARAMS = {
+  separation: { type: 'number', label: '网格间距', group: '形状', min: 0.5, max: 5, step: 0.1, default: 2 },
+  amplitude: { type: 'number', label: '振幅', group: '运动', min: 0, max: 20, step: 0.5, default: 5, live: true },
+  frequency: { type: 'number', label: '频率', group: '运动', min: 0.01, max: 0.5, step: 0.01, default: 0.1, live: true },
+  audioAmplitude: { type: 'number', label: '响度增加振幅', group: '音频', min: 0, max: 20, step: 0.5, default: 8, live: true }
+} satisfies ParamSchema;
+
+export class WaveEffect extends PointsEffect<typeof WAVE_PARAMS> {
+  private phase = 0;
+
+  constructor() {
+    super(EffectType.WAVE, WAVE_PARAMS);
+  }
+
+  public init(scene: THREE.Scene, config: EffectConfig, context: EffectContext) {
+    this.attach(config, context);
+
+    const geometry = new THREE.BufferGeometry();
+    const positions = new Float32Array(config.count * 3);
+    const gridSize = Math.ceil(Math.sqrt(config.count));
+    const { separation } = this.params;
+    const offset = (gridSize * separation) / 2;
+
+    for (let i = 0; i < config.count; i++) {
+      const i3 = i * 3;
+      const x = (i % gridSize) * separation - offset;
+      const z = Math.floor(i / gridSize) * separation - offset;
+      positions[i3] = x;
+      positions[i3 + 1] = 0;
+      positions[i3 + 2] = z;
+    }
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    const material = new THREE.PointsMaterial({
+      size: config.size,
+      color: config.color,
+      map: this.spriteTexture('disc'),
+      blending: THREE.AdditiveBlending,
+      depthWrite: false,
+      transparent: true
+    });
+    this.addPoints(scene, geometry, material);
+  }
+
+  public update(time: number, deltaTime: number) {
+    if (!this.particles) return;
+    const { count, speed } = this.config;
+    this.phase += deltaTime * speed;
+    const phase = this.phase;
+    const { frequency, audioAmplitude } = this.params;
+    const amplitude = this.params.amplitude + this.context.getAudio().level * audioAmplitude;
+    const positions = this.particles.geometry.attributes.position.array as Float32Array;
+    for (let i = 0; i < count; i++) {
+      const i3 = i * 3;
+      const x = positions[i3];
+      const z = positions[i3 + 2];
+      const y = Math.sin(x * frequency + phase) * amplitude + Math.cos(z * frequency + phase) * amplitude;
+      positions[i3 + 1] = y;
+    }
+    this.particles.geometry.attributes.position.needsUpdate = true;
+  }
+}
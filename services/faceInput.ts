@@ -0,0 +1,73 @@
+import { FaceExpression, FaceInput } from '../types';
+import { Point3 } from './gestures';
+
+// Derives the continuous FaceInput channel and expression scores from one
+// MediaPipe face landmarker result.
+
+export const FACE_EXPRESSION_LABELS: Record<FaceExpression, string> = {
+  smile: '😊 微笑',
+  mouthOpen: '😮 张嘴',
+  browRaise: '🤨 挑眉',
+  blink: '😌 眨眼',
+  turnLeft: '👈 向左转头',
+  turnRight: '👉 向右转头',
+  lookUp: '👆 抬头',
+  lookDown: '👇 低头'
+};
+
+export const FACE_EXPRESSIONS = Object.keys(FACE_EXPRESSION_LABELS) as FaceExpression[];
+
+const NOSE_TIP = 1;
+// Head turns this far, in radians, count as fully turned
+const HEAD_TURN_ANGLE = 0.45;
+const HEAD_NOD_ANGLE = 0.35;
+
+interface Blendshape {
+  categoryName: string;
+  score: number;
+}
+
+// Yaw and pitch from the facial transformation matrix (4x4, column-major),
+// which places the canonical face in a camera space with y up and z towards
+// the camera. The face's forward axis is its third column.
+const headPose = (matrix: ReadonlyArray<number> | undefined) => {
+  if (!matrix || matrix.length < 16) return { yaw: 0, pitch: 0 };
+  const [x, y, z] = [matrix[8], matrix[9], matrix[10]];
+  // The preview is mirrored, so a forward axis pointing left in the camera
+  // image is a turn to the right on screen.
+  return { yaw: Math.atan2(-x, z), pitch: Math.atan2(y, Math.hypot(x, z)) };
+};
+
+export const measureFace = (
+  landmarks: ReadonlyArray<Point3>,
+  blendshapes: ReadonlyArray<Blendshape>,
+  matrix: ReadonlyArray<number> | undefined
+): FaceInput => {
+  const scores = new Map(blendshapes.map(({ categoryName, score }) => [categoryName, score]));
+  const score = (name: string) => scores.get(name) ?? 0;
+  const nose = landmarks[NOSE_TIP];
+
+  return {
+    // The preview is mirrored, so flip x to match what the user sees.
+    position: { x: -(nose.x * 2 - 1), y: -(nose.y * 2 - 1) },
+    smile: (score('mouthSmileLeft') + score('mouthSmileRight')) / 2,
+    mouthOpen: score('jawOpen'),
+    browRaise: Math.max(score('browInnerUp'), (score('browOuterUpLeft') + score('browOuterUpRight')) / 2),
+    blink: Math.min(score('eyeBlinkLeft'), score('eyeBlinkRight')),
+    ...headPose(matrix)
+  };
+};
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+// Confidence of every expression, for the per-expression trackers.
+export const scoreExpressions = (face: FaceInput): Record<FaceExpression, number> => ({
+  smile: face.smile,
+  mouthOpen: face.mouthOpen,
+  browRaise: face.browRaise,
+  blink: face.blink,
+  turnLeft: clamp01(-face.yaw / HEAD_TURN_ANGLE),
+  turnRight: clamp01(face.yaw / HEAD_TURN_ANGLE),
+  lookUp: clamp01(face.pitch / HEAD_NOD_ANGLE),
+  lookDown: clamp01(-face.pitch / HEAD_NOD_ANGLE)
+});
@@ -0,0 +1,43 @@
+import { FrameOutput } from '../types';
+import { ZipWriter } from './zip';
+import { downloadBlob, timestampedName } from './download';
+
+// Destination for offline-rendered frames.
+export interface FrameWriter {
+  write: (frame: Blob, index: number) => Promise<void>;
+  // Called once rendering stops, also after a cancel
+  finish: () => Promise<void>;
+}
+
+export const frameName = (index: number) => `frame-${String(index).padStart(5, '0')}.png`;
+
+// The folder picker isn't in TypeScript's DOM library, as only Chromium has it;
+// the handles it returns are.
+interface DirectoryPickerWindow extends Window {
+  showDirectoryPicker?: (options?: { mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
+}
+
+// PNG sequences are written straight into a folder through the File System Access API.
+export const canWriteToDirectory = () => typeof (window as DirectoryPickerWindow).showDirectoryPicker === 'function';
+
+// Call from the click handler: the PNG output asks for a folder first.
+export const createFrameWriter = async (output: FrameOutput): Promise<FrameWriter> => {
+  if (output === 'png') {
+    const directory = await (window as DirectoryPickerWindow).showDirectoryPicker!({ mode: 'readwrite' });
+    return {
+      write: async (frame, index) => {
+        const file = await directory.getFileHandle(frameName(index), { create: true });
+        const writable = await file.createWritable();
+        await writable.write(frame);
+        await writable.close();
+      },
+      finish: async () => {}
+    };
+  }
+
+  const zip = new ZipWriter();
+  return {
+    write: async (frame, index) => zip.add(frameName(index), new Uint8Array(await frame.arrayBuffer())),
+    finish: async () => downloadBlob(zip.finish(), timestampedName('frames', 'zip'))
+  };
+};
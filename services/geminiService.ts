@@ -1,9 +1,9 @@
 import { GoogleGenAI } from "@google/genai";
-import { EffectType } from '../types';
+import { EffectId } from '../types';
 
 const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
-export const getEffectExplanation = async (effect: EffectType): Promise<string> => {
+export const getEffectExplanation = async (effect: EffectId): Promise<string> => {
   try {
     const prompt = `
       解释如何在 Three.js (WebGL) 中从技术上实现 "${effect}" 粒子效果。
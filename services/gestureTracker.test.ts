@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import { GestureType } from '../types';
+import { GestureEvent, GestureTracker } from './gestureTracker';
+
+const FRAME_MS = 20;
+
+// A tracker with the default options that records every event it emits.
+const recordingTracker = () => {
+  const tracker = new GestureTracker();
+  const events: GestureEvent<GestureType>[] = [];
+  tracker.on('gestureStart', event => events.push(event));
+  tracker.on('gestureEnd', event => events.push(event));
+  return { tracker, events };
+};
+
+// Feeds `sample` every frame from `from` (inclusive) to `to` (exclusive).
+const feed = (
+  tracker: GestureTracker,
+  from: number,
+  to: number,
+  sample: { gesture: GestureType; confidence: number } | null
+) => {
+  for (let t = from; t < to; t += FRAME_MS) tracker.update(sample, t);
+};
+
+const FIST = { gesture: GestureType.FIST, confidence: 0.9 };
+const summary = (events: GestureEvent<GestureType>[]) => events.map(({ type, gesture, timestamp }) => [type, gesture, timestamp]);
+
+describe('GestureTracker', () => {
+  it('starts a gesture once it has been held above the enter threshold', () => {
+    const { tracker, events } = recordingTracker();
+    feed(tracker, 0, 140, FIST);
+    expect(events).toEqual([]);
+    feed(tracker, 140, 200, FIST);
+    expect(summary(events)).toEqual([['gestureStart', GestureType.FIST, 160]]);
+    expect(tracker.getActive()).toBe(GestureType.FIST);
+  });
+
+  it('ignores a gesture that never reaches the enter threshold', () => {
+    const { tracker, events } = recordingTracker();
+    feed(tracker, 0, 1000, { gesture: GestureType.FIST, confidence: 0.6 });
+    expect(events).toEqual([]);
+  });
+
+  it('restarts the hold when a frame drops out', () => {
+    const { tracker, events } = recordingTracker();
+    feed(tracker, 0, 100, FIST);
+    tracker.update({ gesture: GestureType.FIST, confidence: 0.5 }, 100);
+    feed(tracker, 120, 260, FIST);
+    expect(events).toEqual([]);
+    tracker.update(FIST, 280);
+    expect(summary(events)).toEqual([['gestureStart', GestureType.FIST, 280]]);
+  });
+
+  it('never starts the idle classification', () => {
+    const { tracker, events } = recordingTracker();
+    feed(tracker, 0, 1000, { gesture: GestureType.NONE, confidence: 1 });
+    expect(events).toEqual([]);
+  });
+
+  it('keeps the gesture active between the exit and enter thresholds', () => {
+    const { tracker, events } = recordingTracker();
+    feed(tracker, 0, 200, FIST);
+    feed(tracker, 200, 2000, { gesture: GestureType.FIST, confidence: 0.5 });
+    expect(events).toHaveLength(1);
+    expect(tracker.getActive()).toBe(GestureType.FIST);
+  });
+
+  it('ends the gesture after it has stayed below the exit threshold', () => {
+    const { tracker, events } = recordingTracker();
+    feed(tracker, 0, 400, FIST);
+    feed(tracker, 400, 800, { gesture: GestureType.OPEN_PALM, confidence: 0.3 });
+    // Last confirmed at 380, released 200 ms later.
+    expect(summary(events)).toEqual([
+      ['gestureStart', GestureType.FIST, 160],
+      ['gestureEnd', GestureType.FIST, 580]
+    ]);
+    expect(events[1].duration).toBe(420);
+  });
+
+  it('holds a short gesture for the minimum active time', () => {
+    const { tracker, events } = recordingTracker();
+    feed(tracker, 0, 180, FIST);
+    feed(tracker, 180, 1000, { gesture: GestureType.NONE, confidence: 1 });
+    expect(events[1].type).toBe('gestureEnd');
+    expect(events[1].duration).toBe(300);
+  });
+
+  it('waits longer before ending when the hand is lost', () => {
+    const { tracker, events } = recordingTracker();
+    feed(tracker, 0, 400, FIST);
+    feed(tracker, 400, 1200, null);
+    expect(events[1].timestamp).toBe(880);
+  });
+
+  it('only lets a new gesture take over after the previous one ended', () => {
+    const { tracker, events } = recordingTracker();
+    const victory = { gesture: GestureType.VICTORY, confidence: 0.9 };
+    feed(tracker, 0, 400, FIST);
+    feed(tracker, 400, 1000, victory);
+    expect(summary(events)).toEqual([
+      ['gestureStart', GestureType.FIST, 160],
+      ['gestureEnd', GestureType.FIST, 580],
+      ['gestureStart', GestureType.VICTORY, 580]
+    ]);
+  });
+
+  it('ends the active gesture on reset', () => {
+    const { tracker, events } = recordingTracker();
+    feed(tracker, 0, 200, FIST);
+    tracker.reset(500);
+    expect(summary(events)[1]).toEqual(['gestureEnd', GestureType.FIST, 500]);
+    expect(tracker.getActive()).toBeNull();
+  });
+
+  it('stops notifying a listener once it unsubscribes', () => {
+    const tracker = new GestureTracker();
+    let starts = 0;
+    const off = tracker.on('gestureStart', () => starts++);
+    off();
+    feed(tracker, 0, 200, FIST);
+    expect(starts).toBe(0);
+  });
+});
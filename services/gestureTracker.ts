@@ -0,0 +1,134 @@
+import { GestureType } from '../types';
+
+// Turns noisy per-frame classifications into deliberate gesture start/end events.
+// A gesture must be seen above `enterThreshold` for `minHoldMs` before it starts,
+// and only ends after it has dropped below `exitThreshold` for `releaseMs`
+// (or the hand has been missing for `lostGraceMs`).
+
+export interface GestureTrackerOptions<T extends string> {
+  enterThreshold: number;
+  exitThreshold: number;
+  minHoldMs: number;
+  minActiveMs: number;
+  releaseMs: number;
+  lostGraceMs: number;
+  // Classification that means "hand visible, no gesture"; never becomes active.
+  idle?: T;
+}
+
+export interface TrackedSample<T extends string> {
+  gesture: T;
+  confidence: number;
+}
+
+export type GestureEventType = 'gestureStart' | 'gestureEnd';
+
+export interface GestureEvent<T extends string> {
+  type: GestureEventType;
+  gesture: T;
+  timestamp: number;
+  // How long the gesture was active (0 for gestureStart).
+  duration: number;
+}
+
+type Listener<T extends string> = (event: GestureEvent<T>) => void;
+
+export const DEFAULT_TRACKER_OPTIONS: GestureTrackerOptions<GestureType> = {
+  enterThreshold: 0.7,
+  exitThreshold: 0.4,
+  minHoldMs: 150,
+  minActiveMs: 300,
+  releaseMs: 200,
+  lostGraceMs: 500,
+  idle: GestureType.NONE
+};
+
+export class GestureTracker<T extends string = GestureType> {
+  private options: GestureTrackerOptions<T>;
+  private listeners: Record<GestureEventType, Set<Listener<T>>> = {
+    gestureStart: new Set(),
+    gestureEnd: new Set()
+  };
+
+  private active: T | null = null;
+  private activeSince = 0;
+  private lastConfirmed = 0;
+  private candidate: T | null = null;
+  private candidateSince = 0;
+
+  constructor(options: Partial<GestureTrackerOptions<T>> = {}) {
+    this.options = { ...(DEFAULT_TRACKER_OPTIONS as unknown as GestureTrackerOptions<T>), ...options };
+  }
+
+  public on(type: GestureEventType, listener: Listener<T>) {
+    this.listeners[type].add(listener);
+    return () => {
+      this.listeners[type].delete(listener);
+    };
+  }
+
+  // Takes effect from the next frame, without ending an active gesture.
+  public configure(options: Partial<GestureTrackerOptions<T>>) {
+    this.options = { ...this.options, ...options };
+  }
+
+  public getActive(): T | null {
+    return this.active;
+  }
+
+  // Feed one frame. Pass null when nothing was detected at all (hand out of view).
+  public update(sample: TrackedSample<T> | null, timestamp: number) {
+    const { enterThreshold, exitThreshold, minHoldMs, minActiveMs, releaseMs, lostGraceMs, idle } = this.options;
+
+    if (this.active !== null) {
+      if (sample && sample.gesture === this.active && sample.confidence >= exitThreshold) {
+        this.lastConfirmed = timestamp;
+      } else {
+        const allowed = sample ? releaseMs : lostGraceMs;
+        const heldLongEnough = timestamp - this.activeSince >= minActiveMs;
+        if (heldLongEnough && timestamp - this.lastConfirmed >= allowed) {
+          this.end(timestamp);
+        }
+      }
+    }
+
+    if (!sample || sample.gesture === idle || sample.confidence < enterThreshold || sample.gesture === this.active) {
+      this.candidate = null;
+      return;
+    }
+
+    if (this.candidate !== sample.gesture) {
+      this.candidate = sample.gesture;
+      this.candidateSince = timestamp;
+    }
+    // A new gesture only takes over once the previous one has been released.
+    if (this.active === null && timestamp - this.candidateSince >= minHoldMs) {
+      this.start(sample.gesture, timestamp);
+    }
+  }
+
+  // End any active gesture immediately (e.g. when the camera stops).
+  public reset(timestamp: number = performance.now()) {
+    if (this.active !== null) this.end(timestamp);
+    this.candidate = null;
+  }
+
+  private start(gesture: T, timestamp: number) {
+    this.active = gesture;
+    this.activeSince = timestamp;
+    this.lastConfirmed = timestamp;
+    this.candidate = null;
+    this.emit({ type: 'gestureStart', gesture, timestamp, duration: 0 });
+  }
+
+  private end(timestamp: number) {
+    const gesture = this.active as T;
+    const duration = timestamp - this.activeSince;
+    this.active = null;
+    this.emit({ type: 'gestureEnd', gesture, timestamp, duration });
+  }
+
+  private emit(event: GestureEvent<T>) {
+    this.listeners[event.type].forEach(listener => listener(event));
+  }
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { GestureType } from '../types';
+import RECORDED from './fixtures/hands.json';
+import { Point3, classifyGesture } from './gestures';
+
+// Hand poses built from joint angles, in the layout of MediaPipe world
+// landmarks: metres, wrist at the origin, fingers pointing up (y down) and
+// curling towards +z, thumb on the +x side.
+
+type Finger = 'index' | 'middle' | 'ring' | 'pinky';
+
+const KNUCKLES: Record<Finger, Point3> = {
+  index: { x: 0.025, y: -0.09, z: 0 },
+  middle: { x: 0, y: -0.095, z: 0 },
+  ring: { x: -0.022, y: -0.09, z: 0 },
+  pinky: { x: -0.04, y: -0.08, z: 0 }
+};
+const SEGMENTS = [0.04, 0.025, 0.022];
+const STRAIGHT = 0;
+const HALF_BENT = 35;
+const CURLED = 80;
+
+const point = (x: number, y: number, z: number): Point3 => ({ x, y, z });
+const add = (a: Point3, b: Point3, scale = 1) => point(a.x + b.x * scale, a.y + b.y * scale, a.z + b.z * scale);
+const lerp = (a: Point3, b: Point3, t: number) => point(a.x + (b.x - a.x) * t, a.y + (b.y - a.y) * t, a.z + (b.z - a.z) * t);
+
+// Knuckle, middle joints and tip, each joint bent by `bend` degrees
+const finger = (knuckle: Point3, bend: number) => {
+  const joints = [knuckle];
+  SEGMENTS.forEach((segment, i) => {
+    const angle = ((i * bend) * Math.PI) / 180;
+    joints.push(add(joints[i], point(0, -Math.cos(angle), Math.sin(angle)), segment));
+  });
+  return joints;
+};
+
+// A straight thumb from its base to `tip`
+const thumb = (tip: Point3) => {
+  const base = point(0.03, -0.025, 0);
+  return [base, lerp(base, tip, 1 / 3), lerp(base, tip, 2 / 3), tip];
+};
+
+// Tucked across the curled fingers
+const TUCKED_THUMB = [point(0.03, -0.025, 0), point(0.045, -0.05, 0.015), point(0.035, -0.07, 0.03), point(0.02, -0.075, 0.035)];
+const SIDEWAYS_THUMB = thumb(point(0.1, -0.07, 0));
+const UP_THUMB = thumb(point(0.04, -0.13, 0));
+const DOWN_THUMB = thumb(point(0.04, 0.07, 0));
+
+const hand = (thumbJoints: Point3[], bends: Record<Finger, number>, adjust?: (landmarks: Point3[]) => void) => {
+  const landmarks = [
+    point(0, 0, 0),
+    ...thumbJoints,
+    ...finger(KNUCKLES.index, bends.index),
+    ...finger(KNUCKLES.middle, bends.middle),
+    ...finger(KNUCKLES.ring, bends.ring),
+    ...finger(KNUCKLES.pinky, bends.pinky)
+  ];
+  adjust?.(landmarks);
+  return landmarks;
+};
+
+// Moves the thumb tip onto the index tip, keeping the thumb straight
+const touchIndexTip = (landmarks: Point3[]) => {
+  const tip = add(landmarks[8], point(0.005, 0, 0));
+  thumb(tip).forEach((joint, i) => {
+    landmarks[1 + i] = joint;
+  });
+};
+
+const POSES: [GestureType, Point3[]][] = [
+  [GestureType.OPEN_PALM, hand(SIDEWAYS_THUMB, { index: STRAIGHT, middle: STRAIGHT, ring: STRAIGHT, pinky: STRAIGHT })],
+  [GestureType.FIST, hand(TUCKED_THUMB, { index: CURLED, middle: CURLED, ring: CURLED, pinky: CURLED })],
+  [GestureType.THUMBS_UP, hand(UP_THUMB, { index: CURLED, middle: CURLED, ring: CURLED, pinky: CURLED })],
+  [GestureType.THUMBS_DOWN, hand(DOWN_THUMB, { index: CURLED, middle: CURLED, ring: CURLED, pinky: CURLED })],
+  [GestureType.VICTORY, hand(TUCKED_THUMB, { index: STRAIGHT, middle: STRAIGHT, ring: CURLED, pinky: CURLED })],
+  [GestureType.POINTING, hand(TUCKED_THUMB, { index: STRAIGHT, middle: CURLED, ring: CURLED, pinky: CURLED })],
+  [GestureType.ROCK, hand(TUCKED_THUMB, { index: STRAIGHT, middle: CURLED, ring: CURLED, pinky: STRAIGHT })],
+  [GestureType.OK, hand(SIDEWAYS_THUMB, { index: HALF_BENT, middle: STRAIGHT, ring: STRAIGHT, pinky: STRAIGHT }, touchIndexTip)],
+  [GestureType.PINCH, hand(SIDEWAYS_THUMB, { index: HALF_BENT, middle: CURLED, ring: CURLED, pinky: CURLED }, touchIndexTip)]
+];
+
+describe('classifyGesture', () => {
+  it.each(POSES)('recognises %s', (gesture, landmarks) => {
+    const result = classifyGesture(landmarks);
+    expect(result.gesture).toBe(gesture);
+    expect(result.confidence).toBeGreaterThanOrEqual(0.5);
+  });
+
+  it('reads straight and curled fingers', () => {
+    const { fingers } = classifyGesture(POSES[0][1]);
+    expect(Math.min(fingers.thumb, fingers.index, fingers.middle, fingers.ring, fingers.pinky)).toBeGreaterThan(0.9);
+    const fist = classifyGesture(POSES[1][1]).fingers;
+    expect(Math.max(fist.index, fist.middle, fist.ring, fist.pinky)).toBeLessThan(0.1);
+  });
+
+  it('reports NONE for an incomplete hand', () => {
+    expect(classifyGesture(POSES[0][1].slice(0, 20)).gesture).toBe(GestureType.NONE);
+  });
+});
+
+// Real MediaPipe output (see the fixture's `source`). Only image landmarks
+// were published for it, so depth is 0; the classifier reads joint angles
+// and ratios to the palm size, which don't depend on the units.
+describe('classifyGesture on recorded hands', () => {
+  it.each(RECORDED.hands.map(({ gesture, landmarks }, i) => [i, gesture, landmarks] as const))(
+    'recognises hand %i as %s',
+    (_, gesture, landmarks) => {
+      const result = classifyGesture(landmarks.map(([x, y]) => point(x, y, 0)));
+      expect(result.gesture).toBe(gesture);
+      expect(result.confidence).toBeGreaterThanOrEqual(0.5);
+    }
+  );
+});
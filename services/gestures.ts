@@ -0,0 +1,137 @@
+import { GestureType } from '../types';
+
+// Pure hand-gesture classifier. Takes the 21 MediaPipe hand world landmarks
+// (metres, camera-aligned, y pointing down) and has no DOM or MediaPipe
+// dependency, so recorded landmark arrays can be classified in Node.
+
+export interface Point3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Extension per finger: 0 = fully curled, 1 = straight.
+export interface FingerExtension {
+  thumb: number;
+  index: number;
+  middle: number;
+  ring: number;
+  pinky: number;
+}
+
+export interface GestureResult {
+  gesture: GestureType;
+  confidence: number;
+  fingers: FingerExtension;
+}
+
+export const GESTURE_LABELS: Record<GestureType, string> = {
+  [GestureType.NONE]: '无',
+  [GestureType.OPEN_PALM]: '🖐️ 张开手掌',
+  [GestureType.FIST]: '✊ 握拳',
+  [GestureType.VICTORY]: '✌️ 比耶',
+  [GestureType.THUMBS_UP]: '👍 点赞',
+  [GestureType.THUMBS_DOWN]: '👎 倒赞',
+  [GestureType.POINTING]: '☝️ 指向',
+  [GestureType.OK]: '👌 OK',
+  [GestureType.ROCK]: '🤘 摇滚',
+  [GestureType.PINCH]: '🤏 捏合',
+  [GestureType.HEART_HANDS]: '🫶 双手比心'
+};
+
+// MediaPipe hand landmark indices
+const WRIST = 0;
+const THUMB = [1, 2, 3, 4];
+const INDEX = [5, 6, 7, 8];
+const MIDDLE = [9, 10, 11, 12];
+const RING = [13, 14, 15, 16];
+const PINKY = [17, 18, 19, 20];
+
+// Below this the best match is reported as NONE.
+const MIN_CONFIDENCE = 0.5;
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+const sub = (a: Point3, b: Point3): Point3 => ({ x: a.x - b.x, y: a.y - b.y, z: a.z - b.z });
+const length = (v: Point3) => Math.sqrt(v.x * v.x + v.y * v.y + v.z * v.z);
+export const distance = (a: Point3, b: Point3) => length(sub(a, b));
+
+const angleBetween = (a: Point3, b: Point3) => {
+  const denom = length(a) * length(b);
+  if (denom === 0) return 0;
+  const cos = (a.x * b.x + a.y * b.y + a.z * b.z) / denom;
+  return Math.acos(Math.min(1, Math.max(-1, cos)));
+};
+
+const DEG = Math.PI / 180;
+
+// Bend between the proximal segment and the distal segment of a finger.
+// ~25° or less reads as straight, ~120° or more as fully curled.
+const fingerExtension = (lm: ReadonlyArray<Point3>, [mcp, pip, , tip]: number[]) => {
+  const bend = angleBetween(sub(lm[pip], lm[mcp]), sub(lm[tip], lm[pip]));
+  return clamp01(1 - (bend - 25 * DEG) / (95 * DEG));
+};
+
+// The thumb bends less than the fingers, so also check how far the tip sits
+// from the index knuckle: tucked across the fist it rests close to it.
+const thumbExtension = (lm: ReadonlyArray<Point3>, palmSize: number) => {
+  const [cmc, mcp, , tip] = THUMB;
+  const straightness = clamp01(1 - (angleBetween(sub(lm[mcp], lm[cmc]), sub(lm[tip], lm[mcp])) - 20 * DEG) / (70 * DEG));
+  const reach = clamp01((distance(lm[tip], lm[INDEX[0]]) / palmSize - 0.4) / 0.35);
+  return (straightness + reach) / 2;
+};
+
+export const measureFingers = (landmarks: ReadonlyArray<Point3>): FingerExtension => {
+  const palmSize = distance(landmarks[WRIST], landmarks[MIDDLE[0]]) || 1;
+  return {
+    thumb: thumbExtension(landmarks, palmSize),
+    index: fingerExtension(landmarks, INDEX),
+    middle: fingerExtension(landmarks, MIDDLE),
+    ring: fingerExtension(landmarks, RING),
+    pinky: fingerExtension(landmarks, PINKY)
+  };
+};
+
+export const classifyGesture = (landmarks: ReadonlyArray<Point3>): GestureResult => {
+  if (landmarks.length < 21) {
+    return { gesture: GestureType.NONE, confidence: 0, fingers: { thumb: 0, index: 0, middle: 0, ring: 0, pinky: 0 } };
+  }
+  const fingers = measureFingers(landmarks);
+
+  const palmSize = distance(landmarks[WRIST], landmarks[MIDDLE[0]]) || 1;
+  const { thumb, index, middle, ring, pinky } = fingers;
+  const curled = (e: number) => 1 - e;
+
+  // Thumb direction (y grows downwards)
+  const thumbDir = sub(landmarks[THUMB[3]], landmarks[THUMB[1]]);
+  const thumbDirY = thumbDir.y / (length(thumbDir) || 1);
+  const thumbUp = Math.min(thumb, clamp01((-thumbDirY - 0.5) / 0.3));
+  const thumbDown = Math.min(thumb, clamp01((thumbDirY - 0.5) / 0.3));
+
+  // Thumb and index tips touching
+  const contact = clamp01(1 - (distance(landmarks[THUMB[3]], landmarks[INDEX[3]]) / palmSize - 0.2) / 0.3);
+  const othersExtended = Math.min(middle, ring, pinky);
+  const fourCurled = Math.min(curled(index), curled(middle), curled(ring), curled(pinky));
+
+  const scores: [GestureType, number][] = [
+    [GestureType.OPEN_PALM, Math.min(thumb, index, middle, ring, pinky, 1 - contact)],
+    [GestureType.FIST, Math.min(fourCurled, 1 - Math.max(thumbUp, thumbDown))],
+    [GestureType.THUMBS_UP, Math.min(fourCurled, thumbUp)],
+    [GestureType.THUMBS_DOWN, Math.min(fourCurled, thumbDown)],
+    [GestureType.VICTORY, Math.min(index, middle, curled(ring), curled(pinky))],
+    [GestureType.POINTING, Math.min(index, curled(middle), curled(ring), curled(pinky))],
+    [GestureType.ROCK, Math.min(index, curled(middle), curled(ring), pinky)],
+    [GestureType.OK, Math.min(contact, othersExtended)],
+    [GestureType.PINCH, Math.min(contact, 1 - othersExtended, clamp01(index * 2))]
+  ];
+
+  let best: [GestureType, number] = [GestureType.NONE, 0];
+  for (const entry of scores) {
+    if (entry[1] > best[1]) best = entry;
+  }
+
+  if (best[1] < MIN_CONFIDENCE) {
+    return { gesture: GestureType.NONE, confidence: 1 - best[1], fingers };
+  }
+  return { gesture: best[0], confidence: best[1], fingers };
+};
@@ -0,0 +1,109 @@
+import { HandInput, Handedness, TwoHandInput } from '../types';
+import { Point3, distance, measureFingers } from './gestures';
+
+// Derives the continuous HandInput channel from one MediaPipe hand result.
+// `landmarks` are normalized image coordinates (0..1, y down), `worldLandmarks` metric.
+
+const PALM_POINTS = [0, 5, 9, 13, 17];
+// Exponential smoothing of the velocity estimate (0 = frozen, 1 = raw)
+const VELOCITY_SMOOTHING = 0.35;
+
+export const palmCenter = (landmarks: ReadonlyArray<Point3>) => {
+  let cx = 0;
+  let cy = 0;
+  PALM_POINTS.forEach(i => {
+    cx += landmarks[i].x;
+    cy += landmarks[i].y;
+  });
+  cx /= PALM_POINTS.length;
+  cy /= PALM_POINTS.length;
+
+  // The preview is mirrored, so flip x to match what the user sees.
+  return { x: -(cx * 2 - 1), y: -(cy * 2 - 1) };
+};
+
+// Keep each hand in the same slot across frames by matching it to the nearest
+// previous position; hands that just appeared take the free slots.
+export const assignHandSlots = (
+  previous: ReadonlyArray<{ x: number; y: number } | null>,
+  current: ReadonlyArray<{ x: number; y: number }>
+): number[] => {
+  const slots: number[] = current.map(() => -1);
+  const taken = new Set<number>();
+  const pairs: { hand: number; slot: number; d: number }[] = [];
+  current.forEach((p, hand) => previous.forEach((q, slot) => {
+    if (q) pairs.push({ hand, slot, d: Math.hypot(p.x - q.x, p.y - q.y) });
+  }));
+  pairs.sort((a, b) => a.d - b.d);
+  pairs.forEach(({ hand, slot }) => {
+    if (slots[hand] === -1 && !taken.has(slot)) {
+      slots[hand] = slot;
+      taken.add(slot);
+    }
+  });
+  slots.forEach((slot, hand) => {
+    if (slot !== -1) return;
+    const free = previous.findIndex((_, s) => !taken.has(s));
+    slots[hand] = free;
+    taken.add(free);
+  });
+  return slots;
+};
+
+export const measureHand = (
+  handedness: Handedness,
+  landmarks: ReadonlyArray<Point3>,
+  worldLandmarks: ReadonlyArray<Point3>,
+  previous: HandInput | null,
+  deltaSeconds: number
+): HandInput => {
+  const position = palmCenter(landmarks);
+  const fingers = measureFingers(worldLandmarks);
+  const openness = (fingers.thumb + fingers.index + fingers.middle + fingers.ring + fingers.pinky) / 5;
+
+  const palmSize = distance(worldLandmarks[0], worldLandmarks[9]) || 1;
+  const pinch = distance(worldLandmarks[4], worldLandmarks[8]) / palmSize;
+
+  // Wrist -> middle knuckle, mirrored like position
+  const dx = -(landmarks[9].x - landmarks[0].x);
+  const dy = -(landmarks[9].y - landmarks[0].y);
+  const rotation = Math.atan2(-dx, dy);
+
+  let velocity = { x: 0, y: 0 };
+  if (previous && deltaSeconds > 0) {
+    const rawX = (position.x - previous.position.x) / deltaSeconds;
+    const rawY = (position.y - previous.position.y) / deltaSeconds;
+    velocity = {
+      x: previous.velocity.x + (rawX - previous.velocity.x) * VELOCITY_SMOOTHING,
+      y: previous.velocity.y + (rawY - previous.velocity.y) * VELOCITY_SMOOTHING
+    };
+  }
+
+  return { handedness, position, openness, pinch, rotation, velocity };
+};
+
+export const measureTwoHands = (a: HandInput, b: HandInput): TwoHandInput => {
+  const [left, right] = a.position.x <= b.position.x ? [a, b] : [b, a];
+  const dx = right.position.x - left.position.x;
+  const dy = right.position.y - left.position.y;
+  return {
+    distance: Math.sqrt(dx * dx + dy * dy),
+    angle: Math.atan2(dy, dx),
+    center: {
+      x: (left.position.x + right.position.x) / 2,
+      y: (left.position.y + right.position.y) / 2
+    }
+  };
+};
+
+// Both thumb tips and both index tips touching, forming a heart between the hands.
+// Uses normalized image landmarks, scaled by the average apparent palm size.
+export const heartShapeConfidence = (a: ReadonlyArray<Point3>, b: ReadonlyArray<Point3>) => {
+  const palm = (distance(a[0], a[9]) + distance(b[0], b[9])) / 2 || 1;
+  const thumbs = distance(a[4], b[4]) / palm;
+  const indexes = distance(a[8], b[8]) / palm;
+  // The index tips sit above the thumbs for a heart (y grows downwards)
+  const upright = (a[8].y + b[8].y) / 2 < (a[4].y + b[4].y) / 2 ? 1 : 0;
+  const touch = (d: number) => Math.min(1, Math.max(0, 1 - (d - 0.25) / 0.35));
+  return Math.min(touch(thumbs), touch(indexes)) * upright;
+};
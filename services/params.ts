@@ -0,0 +1,55 @@
+import { ParamSchema, ParamSpec, ParamValue, ParamValues } from '../types';
+
+// The fields every effect shares, described like an effect schema so the
+// settings panel renders them the same way.
+export const COMMON_PARAMS = {
+  count: { type: 'number', label: '粒子数量', min: 1000, max: 30000, step: 1000, default: 10000 },
+  speed: { type: 'number', label: '速度', min: 0.1, max: 5, step: 0.1, default: 1 },
+  size: { type: 'number', label: '尺寸', min: 0.1, max: 3, step: 0.1, default: 0.5 },
+  color: { type: 'color', label: '颜色', default: '#ff88cc' }
+} satisfies ParamSchema;
+
+export const CAMERA_PARAMS = {
+  distance: { type: 'number', label: '距离', min: 10, max: 200, step: 1, default: 50 },
+  height: { type: 'number', label: '高度', min: -50, max: 100, step: 1, default: 20 },
+  orbit: { type: 'number', label: '环绕角度', min: -180, max: 180, step: 1, default: 0 },
+  fov: { type: 'number', label: '视野', min: 20, max: 120, step: 1, default: 75 }
+} satisfies ParamSchema;
+
+// Synth settings besides the waveform
+export const MUSIC_PARAMS = {
+  attack: { type: 'number', label: '起音', group: '包络 (秒)', min: 0, max: 2, step: 0.01, default: 0.01 },
+  decay: { type: 'number', label: '衰减', group: '包络 (秒)', min: 0, max: 2, step: 0.01, default: 0.3 },
+  sustain: { type: 'number', label: '持续电平', group: '包络 (秒)', min: 0, max: 1, step: 0.05, default: 0.3 },
+  release: { type: 'number', label: '释放', group: '包络 (秒)', min: 0, max: 3, step: 0.01, default: 0.1 },
+  tempo: { type: 'number', label: '速度倍率', group: '播放', min: 0.25, max: 4, step: 0.05, default: 1 },
+  volume: { type: 'number', label: '音量', group: '播放', min: 0, max: 1, step: 0.05, default: 0.5 },
+  loop: { type: 'boolean', label: '循环播放', group: '播放', default: false },
+  muted: { type: 'boolean', label: '静音', group: '播放', default: false }
+} satisfies ParamSchema;
+
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+// Why a value can't be used for the spec, or null if it can.
+export const paramError = (spec: ParamSpec, value: unknown): string | null => {
+  switch (spec.type) {
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return '请输入数字';
+      if (value < spec.min || value > spec.max) return `范围 ${spec.min} ~ ${spec.max}`;
+      return null;
+    case 'color':
+      return typeof value === 'string' && COLOR_PATTERN.test(value) ? null : '颜色格式应为 #rrggbb';
+    case 'boolean':
+      return typeof value === 'boolean' ? null : '应为开或关';
+  }
+};
+
+// Schema values with defaults in place of missing or invalid ones.
+export const readParams = <S extends ParamSchema>(schema: S, values: Record<string, ParamValue> | undefined): ParamValues<S> => {
+  const params = {} as Record<string, ParamValue>;
+  Object.entries(schema).forEach(([key, spec]) => {
+    const value = values?.[key];
+    params[key] = value !== undefined && paramError(spec, value) === null ? value : spec.default;
+  });
+  return params as ParamValues<S>;
+};
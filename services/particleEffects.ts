@@ -1,23 +1,81 @@
 import * as THREE from 'three';
-import { EffectType, EffectConfig } from '../types';
-
-// Shared geometry reuse to save memory
-const textureLoader = new THREE.TextureLoader();
-const particleTexture = textureLoader.load('https://raw.githubusercontent.com/mrdoob/three.js/master/examples/textures/sprites/disc.png');
-const snowflakeTexture = textureLoader.load('https://raw.githubusercontent.com/mrdoob/three.js/master/examples/textures/sprites/snowflake1.png');
-const GALAXY_ROTATION_RATE = 0.002;
+import { AudioFeatures, CameraSettings, EffectId, EffectConfig, EffectContext, EffectTrigger, FaceInput, HandInput, InputState, OfflineRenderSettings, ParticleSystem, MusicSettings, ObjectInput, RenderFramesOptions, SnapshotSettings, TimelinePosition, Tune, TransitionSettings, TwoHandInput } from '../types';
+import { getEffectDefinition } from './effects';
+import { damp } from './effects/shared';
+import { EffectTransition } from './effectTransition';
+import { createRandom } from './random';
+import { getSpriteTexture } from './sprites';
+import { CAMERA_PARAMS, readParams } from './params';
+import { SimulationClock } from './clock';
+import { downloadBlob, timestampedName } from './download';
+import { AudioAnalyser, SILENCE } from './audioAnalyser';
+import { DEFAULT_MUSIC, Synth } from './synth';
+import { parseNotation } from './tunes';
+
+// Camera orbit per radian the line between both hands is turned
+const TWO_HAND_ORBIT_GAIN = 2;
+const TWO_HAND_SCALE_RANGE = [0.3, 3];
+// Camera orbit per radian the head is turned, and camera height per radian it is tilted
+const HEAD_ORBIT_GAIN = 2;
+const HEAD_LIFT_GAIN = 40;
+// Preferred first; browsers differ in which WebM codecs MediaRecorder supports
+const RECORDING_MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+const RECORDING_BITRATE = 12_000_000;
+// Largest drawing buffer rendered at once; browsers may refuse bigger canvases
+// even when the GPU limits allow them
+const SNAPSHOT_MAX_TILE = 4096;
+// Roughly the largest 2D canvas area browsers accept
+const SNAPSHOT_MAX_PIXELS = 16384 * 16384;
+// Matches the page behind the canvas
+const SNAPSHOT_BACKGROUND = '#000000';
+const NO_INPUT: InputState = { hand: null, hands: [], twoHand: null, objects: [], face: null };
+
+const canvasToBlob = (canvas: HTMLCanvasElement) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to encode frame'))), 'image/png');
+  });
 
 export class SceneManager {
   private scene: THREE.Scene;
   private camera: THREE.PerspectiveCamera;
   private renderer: THREE.WebGLRenderer;
-  private particles: THREE.Points | null = null;
+  private activeSystem: ParticleSystem | null = null;
+  private activeEffectId: EffectId | null = null;
+  private activeConfig: EffectConfig | null = null;
+  // Overlay morphing the previous effect into the active one, which is hidden meanwhile
+  private transition: EffectTransition | null = null;
+  private transitionSettings: TransitionSettings = { style: 'cut', duration: 0 };
   private animationId: number | null = null;
-  private updateCallback: ((time: number) => void) | null = null;
+  private clock = new SimulationClock();
   private container: HTMLElement;
-  private handStateIsActive: boolean = false; 
-  private audioContext: AudioContext | null = null;
-  private isPlayingAudio: boolean = false;
+  private activeTriggers = new Set<EffectTrigger>();
+  // What effects see: the live input, except while rendering frames
+  private input: InputState = NO_INPUT;
+  private liveInput: InputState = NO_INPUT;
+  // Two-handed scene controls, relative to the pose when both hands appeared
+  private twoHandReference: TwoHandInput | null = null;
+  private sceneScale = 1;
+  private cameraOrbit = 0;
+  private headOrbit = 0;
+  private headLift = 0;
+  private cameraSettings: CameraSettings = readParams(CAMERA_PARAMS, undefined);
+  private recorder: MediaRecorder | null = null;
+  private recordedChunks: Blob[] = [];
+  private isRenderingFrames = false;
+  private disposed = false;
+  private audioAnalyser = new AudioAnalyser();
+  private audioFeatures: AudioFeatures = SILENCE;
+  private synth = new Synth(DEFAULT_MUSIC);
+  // Played by the music controls and bindings
+  private tune: Tune | null = null;
+  // The synth is playing a tune the active effect started
+  private isEffectTune = false;
+  private effectContext: EffectContext = {
+    isTriggerActive: (trigger) => this.activeTriggers.has(trigger),
+    getInput: () => this.input,
+    getAudio: () => this.audioFeatures,
+    playTune: (notation) => this.playEffectTune(notation, false)
+  };
 
   constructor(container: HTMLElement) {
     this.container = container;
@@ -27,9 +85,9 @@ export class SceneManager {
     this.scene.fog = new THREE.FogExp2(0x000000, 0.001);
 
     // Camera
-    this.camera = new THREE.PerspectiveCamera(75, window.innerWidth / window.innerHeight, 0.1, 2000);
-    this.camera.position.z = 50;
-    this.camera.position.y = 20;
+    this.camera = new THREE.PerspectiveCamera(this.cameraSettings.fov, window.innerWidth / window.innerHeight, 0.1, 2000);
+    this.camera.position.z = this.cameraSettings.distance;
+    this.camera.position.y = this.cameraSettings.height;
     this.camera.lookAt(0, 0, 0);
 
     // Renderer
@@ -45,7 +103,7 @@ export class SceneManager {
   }
 
   private handleResize = () => {
-    if (!this.camera || !this.renderer) return;
+    if (!this.camera || !this.renderer || this.isRenderingFrames) return;
     this.camera.aspect = window.innerWidth / window.innerHeight;
     this.camera.updateProjectionMatrix();
     this.renderer.setSize(window.innerWidth, window.innerHeight);
@@ -53,823 +111,486 @@ export class SceneManager {
 
   private animate = () => {
     this.animationId = requestAnimationFrame(this.animate);
-    const time = Date.now() * 0.001;
-    
-    if (this.updateCallback) {
-      this.updateCallback(time);
+    const steps = this.clock.tick(performance.now());
+
+    for (const { time, deltaTime } of steps) {
+      this.simulate(time, deltaTime);
     }
 
+    this.placeCamera();
     this.renderer.render(this.scene, this.camera);
   };
 
-  public updateHandState(isActive: boolean) {
-    this.handStateIsActive = isActive;
+  private simulate(time: number, deltaTime: number) {
+    this.audioFeatures = this.isRenderingFrames ? SILENCE : this.audioAnalyser.sample();
+    this.applyTwoHandControls(deltaTime);
+    this.applyHeadControls(deltaTime);
+    if (this.activeSystem) {
+      this.activeSystem.update(time, deltaTime);
+    }
+    if (this.transition) {
+      const target = this.activeSystem?.getSnapshot?.();
+      if (!target || this.transition.update(deltaTime, target)) this.finishTransition();
+    }
   }
 
-  // Audio Player for Happy Birthday (Oscillator based to avoid external assets)
-  private playBirthdaySong() {
-    if (this.isPlayingAudio) return;
-    this.isPlayingAudio = true;
-
-    try {
-        const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
-        if (!AudioContextClass) return;
-        this.audioContext = new AudioContextClass();
-
-        const ctx = this.audioContext;
-        const notes = [
-            { note: 261.63, dur: 0.25 }, // C4
-            { note: 261.63, dur: 0.25 }, // C4
-            { note: 293.66, dur: 0.5 },  // D4
-            { note: 261.63, dur: 0.5 },  // C4
-            { note: 349.23, dur: 0.5 },  // F4
-            { note: 329.63, dur: 1.0 },  // E4
-
-            { note: 261.63, dur: 0.25 }, // C4
-            { note: 261.63, dur: 0.25 }, // C4
-            { note: 293.66, dur: 0.5 },  // D4
-            { note: 261.63, dur: 0.5 },  // C4
-            { note: 392.00, dur: 0.5 },  // G4
-            { note: 349.23, dur: 1.0 },  // F4
-        ];
-
-        let time = ctx.currentTime;
-        notes.forEach((n) => {
-            const osc = ctx.createOscillator();
-            const gain = ctx.createGain();
-            osc.connect(gain);
-            gain.connect(ctx.destination);
-            
-            osc.type = 'sine';
-            osc.frequency.value = n.note;
-            
-            gain.gain.setValueAtTime(0.1, time);
-            gain.gain.exponentialRampToValueAtTime(0.001, time + n.dur - 0.05);
-
-            osc.start(time);
-            osc.stop(time + n.dur);
-            time += n.dur;
-        });
-
-        // Loop simpler
-        setTimeout(() => {
-            if (this.isPlayingAudio) {
-                this.isPlayingAudio = false; // Reset flag to allow re-trigger logic if needed or loop
-                // this.playBirthdaySong(); // Uncomment to loop
-            }
-        }, time * 1000);
-
-    } catch (e) {
-        console.error("Audio Play Error", e);
+  // Hands moving apart scale the scene, turning both hands orbits the camera.
+  // Both ease back once a hand leaves.
+  private applyTwoHandControls(deltaTime: number) {
+    const twoHand = this.input.twoHand;
+    let targetScale = 1;
+    let targetOrbit = 0;
+
+    if (twoHand) {
+      if (!this.twoHandReference) this.twoHandReference = twoHand;
+      const reference = this.twoHandReference;
+      const [minScale, maxScale] = TWO_HAND_SCALE_RANGE;
+      targetScale = Math.min(maxScale, Math.max(minScale, twoHand.distance / (reference.distance || 1)));
+      const turn = Math.atan2(Math.sin(twoHand.angle - reference.angle), Math.cos(twoHand.angle - reference.angle));
+      targetOrbit = turn * TWO_HAND_ORBIT_GAIN;
+    } else {
+      this.twoHandReference = null;
     }
+
+    const ease = damp(0.1, deltaTime);
+    this.sceneScale += (targetScale - this.sceneScale) * ease;
+    this.cameraOrbit += (targetOrbit - this.cameraOrbit) * ease;
+
+    this.scene.scale.setScalar(this.sceneScale);
+  }
+
+  // Turning the head orbits the camera and nodding raises or lowers it, easing
+  // back once the face is lost.
+  private applyHeadControls(deltaTime: number) {
+    const face = this.input.face;
+    const ease = damp(0.1, deltaTime);
+    this.headOrbit += ((face ? face.yaw * HEAD_ORBIT_GAIN : 0) - this.headOrbit) * ease;
+    this.headLift += ((face ? face.pitch * HEAD_LIFT_GAIN : 0) - this.headLift) * ease;
+  }
+
+  // Every frame, so camera settings also apply while paused
+  private placeCamera() {
+    const { distance, height, orbit } = this.cameraSettings;
+    const angle = THREE.MathUtils.degToRad(orbit) + this.cameraOrbit + this.headOrbit;
+    this.camera.position.set(Math.sin(angle) * distance, height + this.headLift, Math.cos(angle) * distance);
+    this.camera.lookAt(0, 0, 0);
   }
 
-  private stopAudio() {
-    if (this.audioContext) {
-        this.audioContext.close();
-        this.audioContext = null;
+  public setCamera(settings: CameraSettings) {
+    this.cameraSettings = settings;
+    if (this.camera.fov !== settings.fov) {
+      this.camera.fov = settings.fov;
+      this.camera.updateProjectionMatrix();
     }
-    this.isPlayingAudio = false;
   }
 
+  // --- Playback ---
 
-  public setEffect(type: EffectType, config: EffectConfig) {
-    // Stop Audio if switching effect
-    this.stopAudio();
+  public pause() {
+    this.clock.pause();
+  }
 
-    // Cleanup existing
-    if (this.particles) {
-      this.scene.remove(this.particles);
-      this.particles.geometry.dispose();
-      if (this.particles.material instanceof THREE.Material) {
-        this.particles.material.dispose();
-      }
-      this.particles = null;
+  public resume() {
+    this.clock.resume();
+  }
+
+  public stepFrame() {
+    this.clock.step();
+  }
+
+  public setTimeScale(scale: number) {
+    this.clock.setTimeScale(scale);
+  }
+
+  public setFixedTimestep(seconds: number | null) {
+    this.clock.setFixedTimestep(seconds);
+  }
+
+  // --- Input Actions ---
+
+  public setTrigger(trigger: EffectTrigger, isActive: boolean) {
+    if (this.activeTriggers.has(trigger) === isActive) return;
+    if (isActive) {
+      this.activeTriggers.add(trigger);
+    } else {
+      this.activeTriggers.delete(trigger);
     }
-    this.updateCallback = null;
-    
-    // Reset global rotation
-    if (this.particles) {
-        (this.particles as THREE.Points).rotation.set(0,0,0);
+    this.playTriggerTune(trigger, isActive);
+  }
+
+  public updateHandInput(hands: HandInput[], twoHand: TwoHandInput | null) {
+    this.receiveInput({ hand: hands[0] ?? null, hands, twoHand });
+  }
+
+  public updateObjectInput(objects: ObjectInput[]) {
+    this.receiveInput({ objects });
+  }
+
+  public updateFaceInput(face: FaceInput | null) {
+    this.receiveInput({ face });
+  }
+
+  private receiveInput(input: Partial<InputState>) {
+    this.liveInput = { ...this.liveInput, ...input };
+    if (!this.isRenderingFrames) this.input = this.liveInput;
+  }
+
+  // --- Music ---
+
+  public setMusic(settings: MusicSettings) {
+    this.synth.setSettings(settings);
+  }
+
+  public setTune(tune: Tune | null) {
+    this.tune = tune;
+  }
+
+  public playMusic() {
+    if (!this.tune) return;
+    this.synth.play(this.tune);
+    this.isEffectTune = false;
+  }
+
+  public stopMusic() {
+    this.synth.stop();
+  }
+
+  // Tunes the active effect attached to a trigger. Looping ones stop when the
+  // trigger is released; the others play through.
+  private playTriggerTune(trigger: EffectTrigger, isActive: boolean) {
+    const tune = this.activeEffectId ? getEffectDefinition(this.activeEffectId)?.tunes?.[trigger] : undefined;
+    if (!tune) return;
+    if (isActive) {
+      this.playEffectTune(tune.notation, tune.loop ?? false);
+    } else if (tune.loop && this.isEffectTune) {
+      this.synth.stop();
     }
+  }
 
-    // Initialize new effect
-    switch (type) {
-      case EffectType.GALAXY:
-        this.initGalaxy(config);
-        break;
-      case EffectType.WAVE:
-        this.initWave(config);
-        break;
-      case EffectType.RAIN:
-        this.initRain(config);
-        break;
-      case EffectType.SPHERE:
-        this.initSphere(config);
-        break;
-      case EffectType.CREATIVE_TEXT:
-        this.initCreativeText(config);
-        break;
-      case EffectType.CREATIVE_HEART_FIREWORK:
-        this.initHeartFirework(config);
-        break;
-      case EffectType.CREATIVE_CAT_CAKE:
-        this.initCatCake(config);
-        break;
+  private playEffectTune(notation: string, loop: boolean) {
+    try {
+      this.synth.play(parseNotation(notation), loop);
+      this.isEffectTune = true;
+    } catch (error) {
+      console.error(`Invalid tune for ${this.activeEffectId}:`, error);
     }
   }
 
-  // --- Helpers ---
-  
-  private generateCanvasPositions(text: string, count: number, drawExtra?: (ctx: CanvasRenderingContext2D, cx: number, cy: number) => void): Float32Array {
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      if (!ctx) return new Float32Array(count * 3);
-
-      const width = 512;
-      const height = 512;
-      canvas.width = width;
-      canvas.height = height;
-
-      ctx.fillStyle = '#000000';
-      ctx.fillRect(0, 0, width, height);
-      
-      // Draw Text
-      ctx.fillStyle = '#ffffff';
-      ctx.font = 'bold 80px "Microsoft YaHei", sans-serif';
-      ctx.textAlign = 'center';
-      ctx.textBaseline = 'middle';
-      ctx.fillText(text, width / 2, 100);
-
-      // Draw Extra Graphics
-      if (drawExtra) {
-          drawExtra(ctx, width/2, 300);
-      }
+  // --- Audio-reactive input ---
 
-      // Sampling
-      const imageData = ctx.getImageData(0, 0, width, height);
-      const data = imageData.data;
-      const validPoints: {x: number, y: number}[] = [];
-
-      // Scan
-      for (let y = 0; y < height; y += 3) {
-          for (let x = 0; x < width; x += 3) {
-              const i = (y * width + x) * 4;
-              if (data[i] > 100) { 
-                  validPoints.push({
-                      x: (x - width / 2) * 0.15,
-                      y: -(y - height / 2) * 0.15
-                  });
-              }
-          }
-      }
+  public listenToMicrophone() {
+    return this.audioAnalyser.listenToMicrophone();
+  }
 
-      const positions = new Float32Array(count * 3);
-      for (let i = 0; i < count; i++) {
-          const i3 = i * 3;
-          const point = validPoints.length > 0 ? validPoints[i % validPoints.length] : {x:0, y:0};
-          positions[i3] = point.x + (Math.random() - 0.5) * 0.5;
-          positions[i3 + 1] = point.y + (Math.random() - 0.5) * 0.5;
-          positions[i3 + 2] = (Math.random() - 0.5) * 2; 
-      }
-      return positions;
-  }
-
-  private drawLobster(ctx: CanvasRenderingContext2D, centerX: number, centerY: number) {
-      ctx.fillStyle = '#ffffff';
-      ctx.beginPath();
-      ctx.ellipse(centerX, centerY, 40, 70, 0, 0, Math.PI * 2);
-      ctx.fill();
-      ctx.beginPath();
-      ctx.moveTo(centerX - 30, centerY + 60);
-      ctx.lineTo(centerX + 30, centerY + 60);
-      ctx.lineTo(centerX, centerY + 120);
-      ctx.fill();
-      ctx.beginPath();
-      ctx.moveTo(centerX - 30, centerY - 60);
-      ctx.lineTo(centerX + 30, centerY - 60);
-      ctx.lineTo(centerX, centerY - 90);
-      ctx.fill();
-      ctx.strokeStyle = '#ffffff';
-      ctx.lineWidth = 4;
-      ctx.beginPath();
-      ctx.moveTo(centerX - 10, centerY - 90);
-      ctx.quadraticCurveTo(centerX - 60, centerY - 150, centerX - 40, centerY - 200);
-      ctx.moveTo(centerX + 10, centerY - 90);
-      ctx.quadraticCurveTo(centerX + 60, centerY - 150, centerX + 40, centerY - 200);
-      ctx.stroke();
-      ctx.beginPath();
-      ctx.moveTo(centerX - 30, centerY - 30);
-      ctx.lineTo(centerX - 80, centerY - 80);
-      ctx.stroke();
-      ctx.beginPath();
-      ctx.ellipse(centerX - 90, centerY - 90, 20, 30, -Math.PI/4, 0, Math.PI * 2);
-      ctx.fill();
-      ctx.beginPath();
-      ctx.moveTo(centerX + 30, centerY - 30);
-      ctx.lineTo(centerX + 80, centerY - 80);
-      ctx.stroke();
-      ctx.beginPath();
-      ctx.ellipse(centerX + 90, centerY - 90, 20, 30, Math.PI/4, 0, Math.PI * 2);
-      ctx.fill();
-  }
-
-  // --- Effect Implementations ---
-
-  private initGalaxy(config: EffectConfig) {
-    const geometry = new THREE.BufferGeometry();
-    const positions = new Float32Array(config.count * 3);
-    const colors = new Float32Array(config.count * 3);
-    const colorInside = new THREE.Color(config.color);
-    const colorOutside = new THREE.Color(0x1b3984); 
-
-    for (let i = 0; i < config.count; i++) {
-      const i3 = i * 3;
-      const radius = Math.random() * 50;
-      const spinAngle = radius * 0.5;
-      const branchAngle = (i % 3) * ((Math.PI * 2) / 3);
-      const randomX = Math.pow(Math.random(), 3) * (Math.random() < 0.5 ? 1 : -1) * (0.5 * radius);
-      const randomY = Math.pow(Math.random(), 3) * (Math.random() < 0.5 ? 1 : -1) * (0.5 * radius);
-      const randomZ = Math.pow(Math.random(), 3) * (Math.random() < 0.5 ? 1 : -1) * (0.5 * radius);
-
-      positions[i3] = Math.cos(branchAngle + spinAngle) * radius + randomX;
-      positions[i3 + 1] = randomY;
-      positions[i3 + 2] = Math.sin(branchAngle + spinAngle) * radius + randomZ;
-
-      const mixedColor = colorInside.clone().lerp(colorOutside, radius / 50);
-      colors[i3] = mixedColor.r;
-      colors[i3 + 1] = mixedColor.g;
-      colors[i3 + 2] = mixedColor.b;
-    }
+  public playAudioFile(file: File) {
+    return this.audioAnalyser.playFile(file);
+  }
 
-    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
-    geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
-
-    const material = new THREE.PointsMaterial({
-      size: config.size,
-      sizeAttenuation: true,
-      depthWrite: false,
-      blending: THREE.AdditiveBlending,
-      vertexColors: true,
-      map: particleTexture,
-      transparent: true
-    });
+  public stopAudioInput() {
+    this.audioAnalyser.stop();
+    this.audioFeatures = SILENCE;
+  }
 
-    this.particles = new THREE.Points(geometry, material);
-    this.scene.add(this.particles);
+  public getAudioInput() {
+    return this.audioAnalyser.getInput();
+  }
 
-    this.updateCallback = (time) => {
-      if (this.particles) {
-        this.particles.rotation.y = time * config.speed * 0.1;
-      }
-    };
+  // The features of the latest simulation step
+  public getAudioFeatures() {
+    return this.audioFeatures;
   }
 
-  private initCreativeText(config: EffectConfig) {
-    const count = config.count;
-    const geometry = new THREE.BufferGeometry();
-    const positions = new Float32Array(count * 3);
-    const colors = new Float32Array(count * 3);
-    
-    // 1. Galaxy Positions
-    const galaxyPositions = new Float32Array(count * 3);
-    const colorInside = new THREE.Color(config.color);
-    const colorOutside = new THREE.Color(0x1b3984);
-    const colorText = new THREE.Color(config.color); 
-
-    for (let i = 0; i < count; i++) {
-      const i3 = i * 3;
-      const radius = Math.random() * 50;
-      const spinAngle = radius * 0.5;
-      const branchAngle = (i % 3) * ((Math.PI * 2) / 3);
-      const randomX = Math.pow(Math.random(), 3) * (Math.random() < 0.5 ? 1 : -1) * (0.5 * radius);
-      const randomY = Math.pow(Math.random(), 3) * (Math.random() < 0.5 ? 1 : -1) * (0.5 * radius);
-      const randomZ = Math.pow(Math.random(), 3) * (Math.random() < 0.5 ? 1 : -1) * (0.5 * radius);
-
-      galaxyPositions[i3] = Math.cos(branchAngle + spinAngle) * radius + randomX;
-      galaxyPositions[i3 + 1] = randomY;
-      galaxyPositions[i3 + 2] = Math.sin(branchAngle + spinAngle) * radius + randomZ;
-
-      positions[i3] = galaxyPositions[i3];
-      positions[i3 + 1] = galaxyPositions[i3 + 1];
-      positions[i3 + 2] = galaxyPositions[i3 + 2];
-
-      const mixedColor = colorInside.clone().lerp(colorOutside, radius / 50);
-      colors[i3] = mixedColor.r;
-      colors[i3 + 1] = mixedColor.g;
-      colors[i3 + 2] = mixedColor.b;
-    }
+  // --- Timeline (effects that play a morph sequence) ---
 
-    // 2. Text + Lobster Positions
-    const textPositions = this.generateCanvasPositions("小龙虾", count, this.drawLobster);
+  public getTimelinePosition(): TimelinePosition | null {
+    return this.activeSystem?.timeline?.getPosition() ?? null;
+  }
 
-    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
-    geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+  public seekTimeline(time: number) {
+    this.activeSystem?.timeline?.seek(time);
+  }
 
-    const material = new THREE.PointsMaterial({
-      size: config.size,
-      sizeAttenuation: true,
-      depthWrite: false,
-      blending: THREE.AdditiveBlending,
-      vertexColors: true,
-      map: particleTexture,
-      transparent: true
-    });
+  public jumpToKeyframe(index: number) {
+    this.activeSystem?.timeline?.jumpTo(index);
+  }
 
-    this.particles = new THREE.Points(geometry, material);
-    this.scene.add(this.particles);
-
-    let currentRotationY = 0;
-
-    this.updateCallback = (time) => {
-       if (!this.particles) return;
-       const pos = this.particles.geometry.attributes.position.array as Float32Array;
-       const col = this.particles.geometry.attributes.color.array as Float32Array;
-       
-       if (this.handStateIsActive) { // Victory Gesture -> Crayfish
-         currentRotationY += (0 - currentRotationY) * 0.1;
-         this.particles.rotation.y = currentRotationY;
-
-         for(let i = 0; i < count; i++) {
-           const i3 = i * 3;
-           pos[i3] += (textPositions[i3] - pos[i3]) * 0.08;
-           pos[i3 + 1] += (textPositions[i3 + 1] - pos[i3 + 1]) * 0.08;
-           pos[i3 + 2] += (textPositions[i3 + 2] - pos[i3 + 2]) * 0.08;
-           
-           col[i3] += (colorText.r - col[i3]) * 0.05;
-           col[i3 + 1] += (colorText.g - col[i3 + 1]) * 0.05;
-           col[i3 + 2] += (colorText.b - col[i3 + 2]) * 0.05;
-         }
-       } else { // Galaxy
-        currentRotationY += config.speed * GALAXY_ROTATION_RATE;
-         this.particles.rotation.y = currentRotationY;
-         const baseColor = new THREE.Color(config.color);
-         
-         for(let i = 0; i < count; i++) {
-           const i3 = i * 3;
-           pos[i3] += (galaxyPositions[i3] - pos[i3]) * 0.08;
-           pos[i3 + 1] += (galaxyPositions[i3 + 1] - pos[i3 + 1]) * 0.08;
-           pos[i3 + 2] += (galaxyPositions[i3 + 2] - pos[i3 + 2]) * 0.08;
-
-           const dx = galaxyPositions[i3];
-           const dz = galaxyPositions[i3+2];
-           const radius = Math.sqrt(dx*dx + dz*dz);
-           const targetColor = baseColor.clone().lerp(colorOutside, radius / 50);
-
-           col[i3] += (targetColor.r - col[i3]) * 0.05;
-           col[i3 + 1] += (targetColor.g - col[i3 + 1]) * 0.05;
-           col[i3 + 2] += (targetColor.b - col[i3 + 2]) * 0.05;
-         }
-       }
-       this.particles.geometry.attributes.position.needsUpdate = true;
-       this.particles.geometry.attributes.color.needsUpdate = true;
-    };
+  // --- Snapshots ---
+
+  // Quick capture at the screen's own resolution, for the screenshot binding.
+  public async takeScreenshot() {
+    try {
+      const blob = await this.captureSnapshot({ scale: window.devicePixelRatio, background: 'scene' });
+      downloadBlob(blob, timestampedName('particles', 'png'));
+    } catch (error) {
+      console.error("Screenshot failed:", error);
+    }
   }
 
-  private initHeartFirework(config: EffectConfig) {
-    const count = config.count;
-    const geometry = new THREE.BufferGeometry();
-    const positions = new Float32Array(count * 3);
-    const colors = new Float32Array(count * 3);
-    const heartPositions = new Float32Array(count * 3);
-    const heartColors = new Float32Array(count * 3);
-    const colorBase = new THREE.Color(config.color);
-    const colorEdge = new THREE.Color(0xff0066);
-    const skyBlue = new THREE.Color(0x87CEEB); 
-
-    for (let i = 0; i < config.count; i++) {
-        const i3 = i * 3;
-        const t = Math.random() * Math.PI * 2;
-        const thickness = (Math.random() - 0.5) * 4;
-        let x = 16 * Math.pow(Math.sin(t), 3);
-        let y = 13 * Math.cos(t) - 5 * Math.cos(2*t) - 2 * Math.cos(3*t) - Math.cos(4*t);
-        let z = thickness;
-        x *= (0.8 + Math.random() * 0.2) * 1.2;
-        y *= (0.8 + Math.random() * 0.2) * 1.2;
-        z *= 2; 
-
-        heartPositions[i3] = x;
-        heartPositions[i3 + 1] = y;
-        heartPositions[i3 + 2] = z;
-        
-        const mixedColor = colorBase.clone().lerp(colorEdge, (y + 15) / 30);
-        heartColors[i3] = mixedColor.r;
-        heartColors[i3+1] = mixedColor.g;
-        heartColors[i3+2] = mixedColor.b;
-
-        positions[i3] = x;
-        positions[i3 + 1] = y;
-        positions[i3 + 2] = z;
-        colors[i3] = mixedColor.r;
-        colors[i3+1] = mixedColor.g;
-        colors[i3+2] = mixedColor.b;
+  // Renders the current frame at a multiple of the window size. Sizes beyond
+  // what one drawing buffer can hold are rendered as tiles through a camera
+  // view offset and stitched on a 2D canvas. Every tile is rendered and copied
+  // in the same task, so neither preserveDrawingBuffer nor pausing the loop is needed.
+  public captureSnapshot({ scale, background }: SnapshotSettings, webcam: HTMLVideoElement | null = null): Promise<Blob> {
+    if (this.isRenderingFrames) return Promise.reject(new Error('Cannot take a snapshot while rendering frames'));
+    const width = Math.round(window.innerWidth * scale);
+    const height = Math.round(window.innerHeight * scale);
+    if (width < 1 || height < 1 || width * height > SNAPSHOT_MAX_PIXELS) {
+      return Promise.reject(new Error(`Snapshot size ${width}x${height} is not supported`));
     }
+    if (background === 'webcam' && !(webcam && webcam.readyState >= webcam.HAVE_CURRENT_DATA)) {
+      return Promise.reject(new Error('No webcam frame to composite'));
+    }
+
+    const output = document.createElement('canvas');
+    output.width = width;
+    output.height = height;
+    const context = output.getContext('2d');
+    if (!context) return Promise.reject(new Error('2D canvas unavailable'));
+    if (background === 'scene') {
+      context.fillStyle = SNAPSHOT_BACKGROUND;
+      context.fillRect(0, 0, width, height);
+    } else if (background === 'webcam') {
+      this.drawWebcam(context, webcam!, width, height);
+    }
+
+    const gl = this.renderer.getContext();
+    const [maxViewportWidth, maxViewportHeight] = gl.getParameter(gl.MAX_VIEWPORT_DIMS);
+    const maxTile = Math.min(SNAPSHOT_MAX_TILE, this.renderer.capabilities.maxTextureSize, gl.getParameter(gl.MAX_RENDERBUFFER_SIZE));
+    const tileWidth = Math.min(width, maxTile, maxViewportWidth);
+    const tileHeight = Math.min(height, maxTile, maxViewportHeight);
 
-    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
-    geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
-
-    const material = new THREE.PointsMaterial({
-      size: config.size,
-      sizeAttenuation: true,
-      depthWrite: false,
-      blending: THREE.AdditiveBlending,
-      vertexColors: true,
-      map: snowflakeTexture,
-      transparent: true
+    const pixelRatio = this.renderer.getPixelRatio();
+    const pointSizes = this.getPointSizes();
+    this.renderer.setPixelRatio(1);
+    this.camera.aspect = width / height;
+    try {
+      for (let y = 0; y < height; y += tileHeight) {
+        for (let x = 0; x < width; x += tileWidth) {
+          const w = Math.min(tileWidth, width - x);
+          const h = Math.min(tileHeight, height - y);
+          // Points are sized against the drawing buffer height, here a fraction of the
+          // snapshot's; unattenuated ones have a fixed on-screen size that grows with the scale
+          pointSizes.forEach((size, material) => {
+            material.size = size * (material.sizeAttenuation ? height / h : scale);
+          });
+          this.renderer.setSize(w, h, false);
+          this.camera.setViewOffset(width, height, x, y, w, h);
+          this.renderer.render(this.scene, this.camera);
+          context.drawImage(this.renderer.domElement, 0, 0, w, h, x, y, w, h);
+        }
+      }
+    } finally {
+      pointSizes.forEach((size, material) => {
+        material.size = size;
+      });
+      this.camera.clearViewOffset();
+      this.renderer.setPixelRatio(pixelRatio);
+      this.handleResize();
+    }
+    return canvasToBlob(output);
+  }
+
+  // The size of every points material in the scene, keyed by material
+  private getPointSizes() {
+    const sizes = new Map<THREE.PointsMaterial, number>();
+    this.scene.traverse((object: THREE.Object3D) => {
+      if (!(object instanceof THREE.Points) || !(object.material instanceof THREE.PointsMaterial)) return;
+      if (!sizes.has(object.material)) sizes.set(object.material, object.material.size);
     });
+    return sizes;
+  }
 
-    this.particles = new THREE.Points(geometry, material);
-    this.scene.add(this.particles);
+  // Cover-fit and mirrored, matching the webcam preview.
+  private drawWebcam(context: CanvasRenderingContext2D, video: HTMLVideoElement, width: number, height: number) {
+    const fit = Math.max(width / video.videoWidth, height / video.videoHeight);
+    const drawWidth = video.videoWidth * fit;
+    const drawHeight = video.videoHeight * fit;
+    context.save();
+    context.translate(width, 0);
+    context.scale(-1, 1);
+    context.drawImage(video, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+    context.restore();
+  }
 
-    let phase = 0;
-    let launchHeight = 0;
-    const explosionVelocities = new Float32Array(count * 3);
-    
-    const setExplosionVelocity = (index3: number) => {
-        const theta = Math.random() * Math.PI * 2;
-        const phi = Math.acos((Math.random() * 2) - 1);
-        const speed = Math.random() * 1.5 + 0.5; 
-        explosionVelocities[index3] = Math.sin(phi) * Math.cos(theta) * speed;
-        explosionVelocities[index3+1] = Math.sin(phi) * Math.sin(theta) * speed;
-        explosionVelocities[index3+2] = Math.cos(phi) * speed;
+  // --- Recording ---
+
+  // Real-time capture of the canvas; frames the browser drops stay dropped.
+  public startRecording(fps = 60) {
+    if (this.recorder) return;
+    const mimeType = RECORDING_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+    const recorder = new MediaRecorder(this.renderer.domElement.captureStream(fps), {
+      ...(mimeType ? { mimeType } : {}),
+      videoBitsPerSecond: RECORDING_BITRATE
+    });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
     };
+    recorder.onstop = () => {
+      recorder.stream.getTracks().forEach(track => track.stop());
+    };
+    recorder.start(1000);
+    this.recordedChunks = chunks;
+    this.recorder = recorder;
+  }
 
-    this.updateCallback = (time) => {
-        if (!this.particles) return;
-        const pos = this.particles.geometry.attributes.position.array as Float32Array;
-        const col = this.particles.geometry.attributes.color.array as Float32Array;
-
-        if (this.handStateIsActive) { // Fist detected
-           if (phase === 0) {
-              phase = 1;
-              launchHeight = 0;
-           }
-        } else {
-           if (phase !== 0) phase = 0;
-        }
+  public isRecording() {
+    return this.recorder !== null;
+  }
 
-        if (phase === 0) { // Heart
-            this.particles.rotation.y = Math.sin(time * 0.5) * 0.3;
-            for(let i = 0; i < count; i++) {
-                const i3 = i * 3;
-                pos[i3] += (heartPositions[i3] - pos[i3]) * 0.08;
-                pos[i3 + 1] += (heartPositions[i3 + 1] - pos[i3 + 1]) * 0.08;
-                pos[i3 + 2] += (heartPositions[i3 + 2] - pos[i3 + 2]) * 0.08;
-                col[i3] += (heartColors[i3] - col[i3]) * 0.08;
-                col[i3 + 1] += (heartColors[i3 + 1] - col[i3 + 1]) * 0.08;
-                col[i3 + 2] += (heartColors[i3 + 2] - col[i3 + 2]) * 0.08;
-            }
-        } 
-        else if (phase === 1) { // Launch
-            this.particles.rotation.y += 0.1; 
-            launchHeight += 1.5;
-            for(let i = 0; i < count; i++) {
-                const i3 = i * 3;
-                const tx = 0; const ty = (Math.random() - 0.5) * 5; const tz = 0;
-                pos[i3] += (tx - pos[i3]) * 0.15;
-                pos[i3 + 2] += (tz - pos[i3 + 2]) * 0.15;
-                pos[i3 + 1] += ((launchHeight + ty) - pos[i3 + 1]) * 0.15;
-                col[i3] += (skyBlue.r - col[i3]) * 0.15;
-                col[i3 + 1] += (skyBlue.g - col[i3 + 1]) * 0.15;
-                col[i3 + 2] += (skyBlue.b - col[i3 + 2]) * 0.15;
-            }
-            if (launchHeight > 60) {
-                phase = 2;
-                for(let i = 0; i < count; i++) setExplosionVelocity(i * 3);
-            }
-        }
-        else if (phase === 2) { // Explode
-            for(let i = 0; i < count; i++) {
-                const i3 = i * 3;
-                pos[i3] += explosionVelocities[i3];
-                pos[i3 + 1] += explosionVelocities[i3 + 1];
-                pos[i3 + 2] += explosionVelocities[i3 + 2];
-                explosionVelocities[i3 + 1] -= 0.01; 
-                explosionVelocities[i3] *= 0.99;
-                explosionVelocities[i3+1] *= 0.99;
-                explosionVelocities[i3+2] *= 0.99;
-
-                if (pos[i3 + 1] < -100 && this.handStateIsActive) {
-                    pos[i3] = (Math.random() - 0.5) * 2;
-                    pos[i3 + 1] = 60 + (Math.random() - 0.5) * 5;
-                    pos[i3 + 2] = (Math.random() - 0.5) * 2;
-                    setExplosionVelocity(i3);
-                    col[i3] = skyBlue.r; col[i3+1] = skyBlue.g; col[i3+2] = skyBlue.b;
-                }
-            }
-        }
-        this.particles.geometry.attributes.position.needsUpdate = true;
-        this.particles.geometry.attributes.color.needsUpdate = true;
-    }
+  // Resolves with the WebM once the recorder has flushed, or null if nothing was recording.
+  public stopRecording(): Promise<Blob | null> {
+    const recorder = this.recorder;
+    const chunks = this.recordedChunks;
+    if (!recorder) return Promise.resolve(null);
+    this.recorder = null;
+    return new Promise(resolve => {
+      recorder.addEventListener('stop', () => {
+        resolve(new Blob(chunks, { type: recorder.mimeType || 'video/webm' }));
+      });
+      recorder.stop();
+    });
   }
 
-  // CAT CAKE EFFECT
-  private initCatCake(config: EffectConfig) {
-      const count = config.count;
-      const geometry = new THREE.BufferGeometry();
-      const positions = new Float32Array(count * 3);
-      const colors = new Float32Array(count * 3);
-      const galaxyPositions = new Float32Array(count * 3);
-      const galaxyColors = new Float32Array(count * 3);
-      const colorInside = new THREE.Color(config.color);
-      const colorOutside = new THREE.Color(0x1b3984); 
-      
-      for (let i = 0; i < count; i++) {
-          const i3 = i * 3;
-          const radius = Math.random() * 50;
-          const spinAngle = radius * 0.5;
-          const branchAngle = (i % 3) * ((Math.PI * 2) / 3);
-          const randomX = Math.pow(Math.random(), 3) * (Math.random() < 0.5 ? 1 : -1) * (0.5 * radius);
-          const randomY = Math.pow(Math.random(), 3) * (Math.random() < 0.5 ? 1 : -1) * (0.5 * radius);
-          const randomZ = Math.pow(Math.random(), 3) * (Math.random() < 0.5 ? 1 : -1) * (0.5 * radius);
-
-          galaxyPositions[i3] = Math.cos(branchAngle + spinAngle) * radius + randomX;
-          galaxyPositions[i3 + 1] = randomY;
-          galaxyPositions[i3 + 2] = Math.sin(branchAngle + spinAngle) * radius + randomZ;
-
-          const mixedColor = colorInside.clone().lerp(colorOutside, radius / 50);
-          galaxyColors[i3] = mixedColor.r;
-          galaxyColors[i3 + 1] = mixedColor.g;
-          galaxyColors[i3 + 2] = mixedColor.b;
-
-          positions[i3] = galaxyPositions[i3];
-          positions[i3 + 1] = galaxyPositions[i3 + 1];
-          positions[i3 + 2] = galaxyPositions[i3 + 2];
-          colors[i3] = galaxyColors[i3];
-          colors[i3 + 1] = galaxyColors[i3 + 1];
-          colors[i3 + 2] = galaxyColors[i3 + 2];
-      }
+  // Offline rendering: the live loop stops, and each frame advances the
+  // simulation by exactly 1/fps (scaled by the time scale), renders at the
+  // requested size and is handed to writeFrame before the next one starts.
+  // Webcam input and audio are held back meanwhile, so the frames don't
+  // depend on what the camera or microphone pick up during the render.
+  // Resolves with the number of frames written.
+  public async renderFrames(
+    settings: OfflineRenderSettings,
+    writeFrame: (frame: Blob, index: number) => Promise<void>,
+    { onProgress, signal }: RenderFramesOptions = {}
+  ): Promise<number> {
+    if (this.isRenderingFrames) throw new Error('Already rendering frames');
+    this.isRenderingFrames = true;
+    if (this.animationId !== null) cancelAnimationFrame(this.animationId);
+    this.animationId = null;
+
+    const pixelRatio = this.renderer.getPixelRatio();
+    this.renderer.setPixelRatio(1);
+    // The canvas keeps its on-screen size; only the drawing buffer changes
+    this.renderer.setSize(settings.width, settings.height, false);
+    this.camera.aspect = settings.width / settings.height;
+    this.camera.updateProjectionMatrix();
 
-      // Cake + Text Target Positions
-      const cakePositions = new Float32Array(count * 3);
-      const cakeColors = new Float32Array(count * 3);
-      const textPositions = this.generateCanvasPositions("天天开心~", count / 4); // Use subset for text
-      
-      const cakeColor1 = new THREE.Color(0xFF69B4); // Pink
-      const cakeColor2 = new THREE.Color(0x87CEEB); // Sky blue
-
-      // Build Cake Geometry target
-      let idx = 0;
-      // 1. Base Layer (Cylinder)
-      const baseCount = Math.floor(count * 0.4);
-      for (let i = 0; i < baseCount; i++) {
-          const i3 = idx * 3;
-          const theta = Math.random() * Math.PI * 2;
-          const r = Math.sqrt(Math.random()) * 25; // Radius 25
-          const h = (Math.random() - 0.5) * 15 - 10; // Y from -17.5 to -2.5
-          cakePositions[i3] = r * Math.cos(theta);
-          cakePositions[i3+1] = h;
-          cakePositions[i3+2] = r * Math.sin(theta);
-          
-          cakeColors[i3] = cakeColor1.r; cakeColors[i3+1] = cakeColor1.g; cakeColors[i3+2] = cakeColor1.b;
-          idx++;
-      }
-      // 2. Top Layer
-      const topCount = Math.floor(count * 0.3);
-      for (let i = 0; i < topCount; i++) {
-          const i3 = idx * 3;
-          const theta = Math.random() * Math.PI * 2;
-          const r = Math.sqrt(Math.random()) * 18;
-          const h = (Math.random() - 0.5) * 10 + 5; // Y from 0 to 10
-          cakePositions[i3] = r * Math.cos(theta);
-          cakePositions[i3+1] = h;
-          cakePositions[i3+2] = r * Math.sin(theta);
-          
-          cakeColors[i3] = cakeColor2.r; cakeColors[i3+1] = cakeColor2.g; cakeColors[i3+2] = cakeColor2.b;
-          idx++;
-      }
-      // 3. Candle
-      const candleCount = Math.floor(count * 0.05);
-      for (let i = 0; i < candleCount; i++) {
-           const i3 = idx * 3;
-           const theta = Math.random() * Math.PI * 2;
-           const r = Math.sqrt(Math.random()) * 1.5; 
-           const h = (Math.random()) * 10 + 10; // Y 10 to 20
-           cakePositions[i3] = r * Math.cos(theta);
-           cakePositions[i3+1] = h;
-           cakePositions[i3+2] = r * Math.sin(theta);
-           cakeColors[i3] = 1; cakeColors[i3+1] = 0; cakeColors[i3+2] = 0; // Red candle
-           idx++;
-      }
-      // 4. Text (Birthday) - placed below
-      const textCount = Math.floor(count * 0.2); 
-      for (let i = 0; i < textCount; i++) {
-          const i3 = idx * 3;
-          const tIdx = (i % (textPositions.length/3)) * 3;
-          cakePositions[i3] = textPositions[tIdx];
-          cakePositions[i3+1] = textPositions[tIdx+1] - 60; // Shift further down
-          cakePositions[i3+2] = textPositions[tIdx+2];
-          cakeColors[i3] = 1; cakeColors[i3+1] = 1; cakeColors[i3+2] = 0; // Yellow Text
-          idx++;
-      }
-      // 5. Flame (Remaining)
-      const flameStartIndex = idx;
-      
-      geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
-      geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+    this.input = NO_INPUT;
+    this.twoHandReference = null;
+    this.sceneScale = 1;
+    this.cameraOrbit = 0;
+    this.headOrbit = 0;
+    this.headLift = 0;
 
-      const material = new THREE.PointsMaterial({
-        size: config.size,
-        vertexColors: true,
-        map: particleTexture,
-        transparent: true,
-        blending: THREE.AdditiveBlending,
-        depthWrite: false
-      });
+    if (settings.fromStart) {
+      this.clock.reset();
+      if (this.activeEffectId && this.activeConfig) this.setEffect(this.activeEffectId, this.activeConfig);
+    }
 
-      this.particles = new THREE.Points(geometry, material);
-      this.scene.add(this.particles);
-
-      let isCatDetected = false;
-      let galaxyRotation = 0;
-
-      this.updateCallback = (time) => {
-          if (!this.particles) return;
-          const pos = this.particles.geometry.attributes.position.array as Float32Array;
-          const col = this.particles.geometry.attributes.color.array as Float32Array;
-
-          if (this.handStateIsActive && !isCatDetected) {
-              isCatDetected = true;
-              this.playBirthdaySong();
-          } else if (!this.handStateIsActive && isCatDetected) {
-              isCatDetected = false;
-              // this.stopAudio(); // Optional: Stop audio immediately or let it finish loop
-          }
-
-          if (isCatDetected) {
-              // --- CAKE MODE ---
-              this.particles.rotation.y = Math.sin(time * 0.5) * 0.2;
-
-              // Lerp static parts
-              for (let i = 0; i < flameStartIndex; i++) {
-                  const i3 = i * 3;
-                  pos[i3] += (cakePositions[i3] - pos[i3]) * 0.05;
-                  pos[i3+1] += (cakePositions[i3+1] - pos[i3+1]) * 0.05;
-                  pos[i3+2] += (cakePositions[i3+2] - pos[i3+2]) * 0.05;
-                  
-                  col[i3] += (cakeColors[i3] - col[i3]) * 0.05;
-                  col[i3+1] += (cakeColors[i3+1] - col[i3+1]) * 0.05;
-                  col[i3+2] += (cakeColors[i3+2] - col[i3+2]) * 0.05;
-              }
-
-              // Dynamic Flame
-              for (let i = flameStartIndex; i < count; i++) {
-                   const i3 = i * 3;
-                   // Reset if high
-                   if (pos[i3+1] > 28 || Math.random() < 0.05) {
-                       const theta = Math.random() * Math.PI * 2;
-                       const r = Math.random() * 2;
-                       pos[i3] = r * Math.cos(theta);
-                       pos[i3+1] = 20; // Top of candle
-                       pos[i3+2] = r * Math.sin(theta);
-                       
-                       col[i3] = 1; col[i3+1] = 1; col[i3+2] = 0; // Yellow base
-                   }
-                   
-                   pos[i3+1] += 0.2; // Rise
-                   pos[i3] += (Math.random() - 0.5) * 0.2; // Jitter
-                   
-                   // Color shift to red
-                   col[i3] += (1 - col[i3]) * 0.1;
-                   col[i3+1] -= 0.02; // Green down -> Red
-               }
-
-          } else {
-              galaxyRotation += config.speed * GALAXY_ROTATION_RATE;
-              this.particles.rotation.y = galaxyRotation;
-              for (let i = 0; i < count; i++) {
-                  const i3 = i * 3;
-                  pos[i3] += (galaxyPositions[i3] - pos[i3]) * 0.05;
-                  pos[i3 + 1] += (galaxyPositions[i3 + 1] - pos[i3 + 1]) * 0.05;
-                  pos[i3 + 2] += (galaxyPositions[i3 + 2] - pos[i3 + 2]) * 0.05;
-
-                  col[i3] += (galaxyColors[i3] - col[i3]) * 0.05;
-                  col[i3 + 1] += (galaxyColors[i3 + 1] - col[i3 + 1]) * 0.05;
-                  col[i3 + 2] += (galaxyColors[i3 + 2] - col[i3 + 2]) * 0.05;
-              }
-          }
-          
-          this.particles.geometry.attributes.position.needsUpdate = true;
-          this.particles.geometry.attributes.color.needsUpdate = true;
+    const total = Math.max(1, Math.round(settings.duration * settings.fps));
+    const deltaTime = this.clock.getTimeScale() / settings.fps;
+    let rendered = 0;
+    try {
+      while (rendered < total && !signal?.aborted && !this.disposed) {
+        const { time } = this.clock.advanceBy(deltaTime);
+        this.simulate(time, deltaTime);
+        this.placeCamera();
+        this.renderer.render(this.scene, this.camera);
+        await writeFrame(await canvasToBlob(this.renderer.domElement), rendered);
+        rendered++;
+        onProgress?.(rendered, total);
       }
+    } finally {
+      this.isRenderingFrames = false;
+      this.input = this.liveInput;
+      if (!this.disposed) {
+        this.renderer.setPixelRatio(pixelRatio);
+        this.handleResize();
+        this.animate();
+      }
+    }
+    return rendered;
   }
 
-  private initWave(config: EffectConfig) {
-    const geometry = new THREE.BufferGeometry();
-    const positions = new Float32Array(config.count * 3);
-    const gridSize = Math.ceil(Math.sqrt(config.count));
-    const separation = 2; 
-    const offset = (gridSize * separation) / 2;
-
-    for (let i = 0; i < config.count; i++) {
-      const i3 = i * 3;
-      const x = (i % gridSize) * separation - offset;
-      const z = Math.floor(i / gridSize) * separation - offset;
-      positions[i3] = x;
-      positions[i3 + 1] = 0;
-      positions[i3 + 2] = z;
+  // Applies config changes to the running effect, which keeps its state
+  // (firework phase, morph progress, ...). Effects that can't take the change
+  // live are recreated.
+  public updateConfig(partial: Partial<EffectConfig>) {
+    if (!this.activeSystem || !this.activeEffectId || !this.activeConfig) return;
+    const config = { ...this.activeConfig, ...partial };
+    if (this.activeSystem.updateConfig?.(config)) {
+      this.activeConfig = config;
+    } else {
+      this.setEffect(this.activeEffectId, config);
     }
-    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
-    const material = new THREE.PointsMaterial({
-      size: config.size,
-      color: config.color,
-      map: particleTexture,
-      blending: THREE.AdditiveBlending,
-      depthWrite: false,
-      transparent: true
-    });
-    this.particles = new THREE.Points(geometry, material);
-    this.scene.add(this.particles);
-
-    this.updateCallback = (time) => {
-      if (!this.particles) return;
-      const positions = this.particles.geometry.attributes.position.array as Float32Array;
-      for (let i = 0; i < config.count; i++) {
-        const i3 = i * 3;
-        const x = positions[i3];
-        const z = positions[i3 + 2];
-        const y = Math.sin(x * 0.1 + time * config.speed) * 5 + Math.cos(z * 0.1 + time * config.speed) * 5;
-        positions[i3 + 1] = y;
-      }
-      this.particles.geometry.attributes.position.needsUpdate = true;
-    };
   }
 
-  private initRain(config: EffectConfig) {
-    const geometry = new THREE.BufferGeometry();
-    const positions = new Float32Array(config.count * 3);
-    const velocities = new Float32Array(config.count);
+  public setTransition(settings: TransitionSettings) {
+    this.transitionSettings = settings;
+  }
+
+  private finishTransition() {
+    if (!this.transition) return;
+    this.transition.dispose();
+    this.transition = null;
+    this.activeSystem?.setVisible?.(true);
+  }
+
+  public setEffect(type: EffectId, config: EffectConfig) {
+    // An effect's tune ends with the effect
+    if (this.isEffectTune) this.synth.stop();
+
+    // Only switching to another effect morphs; config changes rebuild in place.
+    // A switch during a transition starts from wherever the overlay is.
+    const morph = type !== this.activeEffectId && this.transitionSettings.style !== 'cut';
+    const from = morph ? this.transition?.getSnapshot() ?? this.activeSystem?.getSnapshot?.() ?? null : null;
+    this.finishTransition();
 
-    for (let i = 0; i < config.count; i++) {
-      const i3 = i * 3;
-      positions[i3] = (Math.random() - 0.5) * 200;
-      positions[i3 + 1] = (Math.random() - 0.5) * 200;
-      positions[i3 + 2] = (Math.random() - 0.5) * 200;
-      velocities[i] = Math.random() * 0.5 + 0.5; 
+    // Cleanup existing
+    if (this.activeSystem) {
+      this.activeSystem.cleanup(this.scene);
+      this.activeSystem = null;
     }
-    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
-    const material = new THREE.PointsMaterial({
-      size: config.size,
-      color: config.color,
-      transparent: true,
-      opacity: 0.8,
-      blending: THREE.AdditiveBlending,
-      depthWrite: false
-    });
-    this.particles = new THREE.Points(geometry, material);
-    this.scene.add(this.particles);
-
-    this.updateCallback = () => {
-       if (!this.particles) return;
-       const positions = this.particles.geometry.attributes.position.array as Float32Array;
-       for(let i = 0; i < config.count; i++) {
-         const i3 = i * 3;
-         positions[i3 + 1] -= velocities[i] * config.speed;
-         if (positions[i3 + 1] < -100) {
-           positions[i3 + 1] = 100;
-         }
-       }
-       this.particles.geometry.attributes.position.needsUpdate = true;
-    };
-  }
 
-  private initSphere(config: EffectConfig) {
-    const geometry = new THREE.BufferGeometry();
-    const positions = new Float32Array(config.count * 3);
-    const radius = 40;
-    for (let i = 0; i < config.count; i++) {
-        const i3 = i * 3;
-        const theta = Math.random() * Math.PI * 2;
-        const phi = Math.acos((Math.random() * 2) - 1);
-        positions[i3] = radius * Math.sin(phi) * Math.cos(theta);
-        positions[i3 + 1] = radius * Math.sin(phi) * Math.sin(theta);
-        positions[i3 + 2] = radius * Math.cos(phi);
+    // Initialize new effect
+    const definition = getEffectDefinition(type);
+    if (!definition) {
+      console.error(`Unknown effect: ${type}`);
+      return;
     }
-    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
-    const material = new THREE.PointsMaterial({
+    this.activeSystem = definition.create();
+    this.activeSystem.init(this.scene, config, this.effectContext);
+    this.activeEffectId = type;
+    this.activeConfig = config;
+
+    const target = from ? this.activeSystem.getSnapshot?.() : null;
+    if (from && target && this.activeSystem.setVisible) {
+      const material = new THREE.PointsMaterial({
         size: config.size,
-        color: config.color,
-        map: particleTexture,
-        transparent: true,
+        sizeAttenuation: true,
+        depthWrite: false,
         blending: THREE.AdditiveBlending,
-        depthWrite: false
-    });
-    this.particles = new THREE.Points(geometry, material);
-    this.scene.add(this.particles);
-
-    this.updateCallback = (time) => {
-        if (this.particles) {
-            this.particles.rotation.y = time * config.speed * 0.2;
-            this.particles.rotation.z = time * config.speed * 0.1;
-            const scale = 1 + Math.sin(time * 2) * 0.05;
-            this.particles.scale.set(scale, scale, scale);
-        }
+        vertexColors: true,
+        map: getSpriteTexture(config.sprite ?? 'disc', config.spriteFalloff),
+        transparent: true
+      });
+      this.transition = new EffectTransition(this.scene, from, target.count, this.transitionSettings, material, createRandom(config.seed));
+      this.activeSystem.setVisible(false);
     }
   }
 
   public cleanup() {
+    this.disposed = true;
     window.removeEventListener('resize', this.handleResize);
-    this.stopAudio();
+    this.synth.dispose();
+    this.audioAnalyser.stop();
+    this.recorder?.stop();
+    this.recorder = null;
+    this.finishTransition();
+    if (this.activeSystem) {
+      this.activeSystem.cleanup(this.scene);
+      this.activeSystem = null;
+    }
     if (this.animationId) cancelAnimationFrame(this.animationId);
     if (this.renderer) {
         this.renderer.dispose();
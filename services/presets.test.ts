@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { EffectType } from '../types';
+import { PRESET_VERSION, PresetError, parsePresetDocument, serializePresets } from './presets';
+
+const PRESET = {
+  name: '星空',
+  effect: EffectType.GALAXY,
+  config: { count: 10000, size: 0.5, speed: 1, color: '#ff88cc', seed: 7, sprite: 'glow', spriteFalloff: 0.4 },
+  camera: { distance: 50, height: 20, orbit: 0, fov: 75 }
+};
+
+// A version 1 document, as exported by the first release with presets
+const documentWith = (config: Record<string, unknown>) => ({
+  version: 1,
+  presets: [{ ...PRESET, config: { ...PRESET.config, ...config } }]
+});
+
+describe('parsePresetDocument', () => {
+  it('reads a version 1 document', () => {
+    expect(parsePresetDocument(documentWith({}))).toEqual([PRESET]);
+  });
+
+  it('round-trips serialized presets', () => {
+    const text = { content: '你好\n世界', fontSize: 60, lineHeight: 1.5 };
+    const presets = parsePresetDocument(documentWith({ text }));
+    expect(parsePresetDocument(JSON.parse(serializePresets(presets)))).toEqual(presets);
+  });
+
+  it('drops fields it does not know', () => {
+    const [preset] = parsePresetDocument(documentWith({ legacy: true }));
+    expect(preset.config).not.toHaveProperty('legacy');
+  });
+
+  it('rejects documents without a supported version', () => {
+    expect(() => parsePresetDocument({ presets: [] })).toThrow('version: 缺失或无效');
+    expect(() => parsePresetDocument({ version: 1.5, presets: [] })).toThrow(PresetError);
+    expect(() => parsePresetDocument({ version: PRESET_VERSION + 1, presets: [] })).toThrow('请先更新应用');
+    expect(() => parsePresetDocument([])).toThrow('不是预设文件');
+  });
+
+  it('rejects presets for effects it does not have', () => {
+    const document = { version: 1, presets: [{ ...PRESET, effect: 'LAVA_LAMP' }] };
+    expect(() => parsePresetDocument(document)).toThrow('presets[0].effect: 未知特效 "LAVA_LAMP"');
+  });
+
+  it.each([
+    ['count', { count: 1500.5 }],
+    ['count', { count: 100 }],
+    ['seed', { seed: -1 }],
+    ['seed', { seed: 0.5 }],
+    ['color', { color: 'pink' }],
+    ['sprite', { sprite: 'cube' }],
+    ['spriteFalloff', { spriteFalloff: 2 }],
+    ['text.fontSize', { text: { fontSize: 1000 } }],
+    ['text.lineHeight', { text: { lineHeight: 0 } }]
+  ])('rejects an invalid %s', (field, config) => {
+    expect(() => parsePresetDocument(documentWith(config))).toThrow(`presets[0].config.${field}`);
+  });
+
+  it('rejects a camera with missing settings', () => {
+    const document = { version: 1, presets: [{ ...PRESET, camera: { distance: 50 } }] };
+    expect(() => parsePresetDocument(document)).toThrow('presets[0].camera.height');
+  });
+});
@@ -0,0 +1,271 @@
+import { CameraSettings, EffectConfig, MorphKeyframe, MorphShape, ParamSchema, ParamValue, ScenePreset } from '../types';
+import { TEXT_STYLE_RANGES, getEffectDefinition } from './effects';
+import { CAMERA_PARAMS, COMMON_PARAMS, paramError, readParams } from './params';
+import { SPRITE_FALLOFF_RANGE, SPRITE_LABELS } from './sprites';
+import { EASING_LABELS } from './timeline';
+
+const STORAGE_KEY = 'particle-fx:presets';
+const HASH_KEY = 'preset';
+
+// Presets are stored and exported as { version, presets }. Bump the version
+// whenever the stored shape changes, and add a migration from the old one.
+export const PRESET_VERSION = 1;
+
+// MIGRATIONS[n] turns a version n document into a version n + 1 document.
+const MIGRATIONS: Record<number, (document: Record<string, unknown>) => Record<string, unknown>> = {};
+
+export class PresetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PresetError';
+  }
+}
+
+const fail = (path: string, problem: string): never => {
+  throw new PresetError(path ? `${path}: ${problem}` : problem);
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+type FieldSpec = 'string' | 'number' | 'boolean' | readonly string[];
+
+// Copies the listed fields after checking their types; anything else is dropped.
+const readFields = (value: unknown, path: string, required: Record<string, FieldSpec>, optional: Record<string, FieldSpec> = {}) => {
+  if (!isObject(value)) fail(path, '应为对象');
+  const source = value as Record<string, unknown>;
+  const result: Record<string, unknown> = {};
+  const read = (key: string, spec: FieldSpec, isRequired: boolean) => {
+    const field = source[key];
+    if (field === undefined) {
+      if (isRequired) fail(`${path}.${key}`, '缺失');
+      return;
+    }
+    const valid = Array.isArray(spec) ? spec.includes(field as string)
+      : spec === 'number' ? typeof field === 'number' && Number.isFinite(field)
+      : typeof field === spec;
+    if (!valid) fail(`${path}.${key}`, `应为 ${Array.isArray(spec) ? spec.join(' / ') : spec}`);
+    result[key] = field;
+  };
+  Object.entries(required).forEach(([key, spec]) => read(key, spec, true));
+  Object.entries(optional).forEach(([key, spec]) => read(key, spec, false));
+  return result;
+};
+
+const checkRange = (value: unknown, path: string, [min, max]: number[]) => {
+  if (typeof value === 'number' && (value < min || value > max)) fail(path, `范围 ${min} ~ ${max}`);
+};
+
+const checkSchemaValues = (value: Record<string, unknown>, path: string, schema: ParamSchema) => {
+  Object.entries(schema).forEach(([key, spec]) => {
+    const error = paramError(spec, value[key]);
+    if (error) fail(`${path}.${key}`, error);
+  });
+};
+
+const MORPH_SHAPES: MorphShape[] = ['galaxy', 'sphere', 'heart', 'text', 'image', 'model'];
+
+const TEXT_FIELDS: Record<string, FieldSpec> = {
+  content: 'string',
+  fontFamily: 'string',
+  fontWeight: 'string',
+  fontSize: 'number',
+  align: ['left', 'center', 'right'],
+  letterSpacing: 'number',
+  lineHeight: 'number'
+};
+
+const IMAGE_FIELDS: Record<string, FieldSpec> = {
+  src: 'string',
+  brightnessDensity: 'boolean',
+  sampleColors: 'boolean',
+  alphaThreshold: 'number',
+  depth: 'number'
+};
+
+const MODEL_FIELDS: Record<string, FieldSpec> = {
+  src: 'string',
+  format: ['obj', 'ply', 'gltf'],
+  sampleColors: 'boolean'
+};
+
+const KEYFRAME_FIELDS: Record<string, FieldSpec> = {
+  id: 'string',
+  shape: MORPH_SHAPES,
+  transition: 'number',
+  hold: 'number',
+  easing: Object.keys(EASING_LABELS),
+  stagger: 'number'
+};
+
+const readTimeline = (value: unknown, path: string) => {
+  const timeline = readFields(value, path, { loop: 'boolean' });
+  const keyframes = (value as Record<string, unknown>).keyframes;
+  if (!Array.isArray(keyframes)) fail(`${path}.keyframes`, '应为数组');
+  return {
+    loop: timeline.loop as boolean,
+    keyframes: (keyframes as unknown[]).map((keyframe, index) =>
+      readFields(keyframe, `${path}.keyframes[${index}]`, KEYFRAME_FIELDS, { color: 'string' }) as unknown as MorphKeyframe)
+  };
+};
+
+// Values are checked against each effect's schema. Effects this build doesn't
+// have, and parameters their schema no longer lists, are dropped.
+const readEffectParams = (value: unknown, path: string) => {
+  if (!isObject(value)) fail(path, '应为对象');
+  const params: Record<string, Record<string, ParamValue>> = {};
+  Object.entries(value as Record<string, unknown>).forEach(([effect, values]) => {
+    const schema = getEffectDefinition(effect)?.params;
+    if (!schema) return;
+    if (!isObject(values)) fail(`${path}.${effect}`, '应为对象');
+    params[effect] = {};
+    Object.entries(values as Record<string, unknown>).forEach(([key, param]) => {
+      if (!(key in schema)) return;
+      const error = paramError(schema[key], param);
+      if (error) fail(`${path}.${effect}.${key}`, error);
+      params[effect][key] = param as ParamValue;
+    });
+  });
+  return params;
+};
+
+const readConfig = (value: unknown, path: string): EffectConfig => {
+  const config = readFields(value, path,
+    { count: 'number', size: 'number', speed: 'number', color: 'string', seed: 'number' },
+    { sprite: Object.keys(SPRITE_LABELS), spriteFalloff: 'number' });
+  checkSchemaValues(config, path, COMMON_PARAMS);
+  if (!Number.isInteger(config.count)) fail(`${path}.count`, '应为整数');
+  if (!Number.isInteger(config.seed) || (config.seed as number) < 0) fail(`${path}.seed`, '应为非负整数');
+  checkRange(config.spriteFalloff, `${path}.spriteFalloff`, SPRITE_FALLOFF_RANGE);
+
+  const source = value as Record<string, unknown>;
+  if (source.text !== undefined) {
+    const text = readFields(source.text, `${path}.text`, {}, TEXT_FIELDS);
+    Object.entries(TEXT_STYLE_RANGES).forEach(([key, range]) => checkRange(text[key], `${path}.text.${key}`, range));
+    config.text = text;
+  }
+  if (source.image !== undefined) config.image = readFields(source.image, `${path}.image`, IMAGE_FIELDS);
+  if (source.model !== undefined) config.model = readFields(source.model, `${path}.model`, MODEL_FIELDS);
+  if (source.timeline !== undefined) config.timeline = readTimeline(source.timeline, `${path}.timeline`);
+  if (source.params !== undefined) config.params = readEffectParams(source.params, `${path}.params`);
+  return config as unknown as EffectConfig;
+};
+
+const readCamera = (value: unknown, path: string): CameraSettings => {
+  if (!isObject(value)) fail(path, '应为对象');
+  checkSchemaValues(value as Record<string, unknown>, path, CAMERA_PARAMS);
+  return readParams(CAMERA_PARAMS, value as Record<string, ParamValue>);
+};
+
+const readPreset = (value: unknown, path: string): ScenePreset => {
+  const { name, effect } = readFields(value, path, { name: 'string', effect: 'string' }) as { name: string; effect: string };
+  if (!name.trim()) fail(`${path}.name`, '不能为空');
+  if (!getEffectDefinition(effect)) fail(`${path}.effect`, `未知特效 "${effect}"`);
+  const source = value as Record<string, unknown>;
+  return {
+    name,
+    effect,
+    config: readConfig(source.config, `${path}.config`),
+    camera: readCamera(source.camera, `${path}.camera`)
+  };
+};
+
+// Brings an older document up to PRESET_VERSION.
+const migrate = (document: unknown) => {
+  if (!isObject(document)) return fail('', '不是预设文件');
+  let current = document;
+  const { version } = current;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) return fail('version', '缺失或无效');
+  if (version > PRESET_VERSION) fail('version', `预设来自更新的版本 (${version})，请先更新应用`);
+  for (let from = version; from < PRESET_VERSION; from++) {
+    current = MIGRATIONS[from](current);
+  }
+  return current;
+};
+
+// Validates a parsed document of any supported version. Throws PresetError.
+export const parsePresetDocument = (document: unknown): ScenePreset[] => {
+  const { presets } = migrate(document);
+  if (!Array.isArray(presets)) return fail('presets', '应为数组');
+  return presets.map((preset: unknown, index: number) => readPreset(preset, `presets[${index}]`));
+};
+
+export const serializePresets = (presets: ScenePreset[]) =>
+  JSON.stringify({ version: PRESET_VERSION, presets }, null, 2);
+
+export const loadPresets = (): ScenePreset[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return [];
+    const { presets } = migrate(JSON.parse(stored));
+    if (!Array.isArray(presets)) return [];
+    // One broken preset shouldn't cost the others
+    return presets.flatMap((preset: unknown, index: number) => {
+      try {
+        return [readPreset(preset, `presets[${index}]`)];
+      } catch (error) {
+        console.error("Skipping invalid preset:", error);
+        return [];
+      }
+    });
+  } catch (error) {
+    console.error("Failed to load presets:", error);
+    return [];
+  }
+};
+
+export const savePresets = (presets: ScenePreset[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, serializePresets(presets));
+  } catch (error) {
+    console.error("Failed to save presets:", error);
+  }
+};
+
+// Adds the preset, replacing one with the same name.
+export const upsertPreset = (presets: ScenePreset[], preset: ScenePreset) => {
+  const index = presets.findIndex(other => other.name === preset.name);
+  return index === -1 ? [...presets, preset] : presets.map((other, i) => (i === index ? preset : other));
+};
+
+// --- Shareable URLs ---
+
+const toBase64Url = (text: string) => {
+  let binary = '';
+  new TextEncoder().encode(text).forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string) => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+};
+
+const isUpload = (target: { src: string } | undefined) => !!target && target.src.startsWith('data:');
+
+// Uploaded images and models are data URLs, far too long for a link, so they
+// are left out; omittedUploads tells the caller to mention it.
+export const presetToHash = (preset: ScenePreset) => {
+  const config = { ...preset.config };
+  const omittedUploads = isUpload(config.image) || isUpload(config.model);
+  if (isUpload(config.image)) delete config.image;
+  if (isUpload(config.model)) delete config.model;
+  const document = { version: PRESET_VERSION, presets: [{ ...preset, config }] };
+  return { hash: `#${HASH_KEY}=${toBase64Url(JSON.stringify(document))}`, omittedUploads };
+};
+
+// The preset in a URL hash, or null if there is none. Throws PresetError if it is invalid.
+export const presetFromHash = (hash: string): ScenePreset | null => {
+  const encoded = new URLSearchParams(hash.replace(/^#/, '')).get(HASH_KEY);
+  if (!encoded) return null;
+  let document: unknown;
+  try {
+    document = JSON.parse(fromBase64Url(encoded));
+  } catch {
+    return fail('', '链接中的预设已损坏');
+  }
+  const [preset] = parsePresetDocument(document);
+  return preset ?? fail('presets', '链接中没有预设');
+};
@@ -0,0 +1,17 @@
+// Seedable PRNG so a seed + config + simulation time always reproduces the same particle buffers.
+// Returns values in [0, 1) like Math.random, so generators can take it as a drop-in replacement.
+export type Random = () => number;
+
+// mulberry32: tiny, fast and good enough for visual noise.
+export const createRandom = (seed: number): Random => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const randomSeed = () => Math.floor(Math.random() * 0xFFFFFFFF);
@@ -0,0 +1,132 @@
+import * as THREE from 'three';
+
+// Particle sprites drawn on a canvas at startup instead of fetched as PNGs.
+// `falloff` is edge softness: 0 = crisp edges, 1 = fully feathered.
+
+export type SpriteName = 'disc' | 'dot' | 'glow' | 'star' | 'snowflake' | 'heart' | 'ring' | 'sparkle';
+
+export const SPRITE_LABELS: Record<SpriteName, string> = {
+  disc: '柔和圆点',
+  dot: '实心小点',
+  glow: '光晕',
+  star: '星星',
+  snowflake: '雪花',
+  heart: '爱心',
+  ring: '圆环',
+  sparkle: '闪光'
+};
+
+export const DEFAULT_SPRITE_FALLOFF = 0.2;
+export const SPRITE_FALLOFF_RANGE = [0, 1];
+
+const SPRITE_SIZE = 128;
+const HALF = SPRITE_SIZE / 2;
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+// Radial alpha gradient: opaque up to `solid` of the radius, then fading out.
+const fillRadial = (ctx: CanvasRenderingContext2D, radius: number, solid: number, exponent = 1) => {
+  const gradient = ctx.createRadialGradient(HALF, HALF, 0, HALF, HALF, radius);
+  const steps = 8;
+  gradient.addColorStop(0, 'rgba(255,255,255,1)');
+  for (let i = 0; i <= steps; i++) {
+    const t = solid + (1 - solid) * (i / steps);
+    const alpha = Math.pow(1 - i / steps, exponent);
+    gradient.addColorStop(Math.min(1, t), `rgba(255,255,255,${alpha})`);
+  }
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, SPRITE_SIZE, SPRITE_SIZE);
+};
+
+// Shapes are filled or stroked in white with a blur proportional to falloff.
+const soften = (ctx: CanvasRenderingContext2D, falloff: number) => {
+  ctx.fillStyle = ctx.strokeStyle = '#ffffff';
+  ctx.shadowColor = '#ffffff';
+  ctx.shadowBlur = falloff * SPRITE_SIZE * 0.12;
+};
+
+const starPath = (ctx: CanvasRenderingContext2D, points: number, outer: number, inner: number) => {
+  ctx.beginPath();
+  for (let i = 0; i < points * 2; i++) {
+    const radius = i % 2 === 0 ? outer : inner;
+    const angle = (i / (points * 2)) * Math.PI * 2 - Math.PI / 2;
+    ctx.lineTo(HALF + Math.cos(angle) * radius, HALF + Math.sin(angle) * radius);
+  }
+  ctx.closePath();
+};
+
+const DRAWERS: Record<SpriteName, (ctx: CanvasRenderingContext2D, falloff: number) => void> = {
+  disc: (ctx, falloff) => fillRadial(ctx, HALF, 1 - Math.max(0.05, falloff)),
+  dot: (ctx, falloff) => fillRadial(ctx, HALF * 0.45, 1 - Math.max(0.1, falloff)),
+  glow: (ctx, falloff) => fillRadial(ctx, HALF, 0, 1 + (1 - falloff) * 3),
+
+  star: (ctx, falloff) => {
+    soften(ctx, falloff);
+    starPath(ctx, 5, HALF * 0.85, HALF * 0.38);
+    ctx.fill();
+  },
+
+  snowflake: (ctx, falloff) => {
+    soften(ctx, falloff);
+    ctx.lineWidth = SPRITE_SIZE * 0.05;
+    ctx.lineCap = 'round';
+    ctx.translate(HALF, HALF);
+    for (let arm = 0; arm < 6; arm++) {
+      ctx.beginPath();
+      ctx.moveTo(0, 0);
+      ctx.lineTo(0, -HALF * 0.85);
+      for (const along of [0.4, 0.62]) {
+        const y = -HALF * along;
+        const reach = HALF * 0.2;
+        ctx.moveTo(0, y);
+        ctx.lineTo(-reach, y - reach);
+        ctx.moveTo(0, y);
+        ctx.lineTo(reach, y - reach);
+      }
+      ctx.stroke();
+      ctx.rotate(Math.PI / 3);
+    }
+  },
+
+  heart: (ctx, falloff) => {
+    soften(ctx, falloff);
+    const s = HALF * 0.8;
+    ctx.beginPath();
+    ctx.moveTo(HALF, HALF + s * 0.85);
+    ctx.bezierCurveTo(HALF - s * 1.2, HALF + s * 0.1, HALF - s * 0.9, HALF - s * 0.9, HALF, HALF - s * 0.35);
+    ctx.bezierCurveTo(HALF + s * 0.9, HALF - s * 0.9, HALF + s * 1.2, HALF + s * 0.1, HALF, HALF + s * 0.85);
+    ctx.fill();
+  },
+
+  ring: (ctx, falloff) => {
+    soften(ctx, falloff);
+    ctx.lineWidth = SPRITE_SIZE * 0.08;
+    ctx.beginPath();
+    ctx.arc(HALF, HALF, HALF * 0.7, 0, Math.PI * 2);
+    ctx.stroke();
+  },
+
+  sparkle: (ctx, falloff) => {
+    fillRadial(ctx, HALF * 0.35, 0, 2);
+    soften(ctx, falloff);
+    starPath(ctx, 4, HALF * 0.95, HALF * 0.12);
+    ctx.fill();
+  }
+};
+
+const cache = new Map<string, THREE.Texture>();
+
+// Textures are shared between effects, so callers must not dispose them.
+export const getSpriteTexture = (name: SpriteName, falloff: number = DEFAULT_SPRITE_FALLOFF): THREE.Texture => {
+  const softness = clamp01(falloff);
+  const key = `${name}:${softness.toFixed(2)}`;
+  let texture = cache.get(key);
+  if (!texture) {
+    const canvas = document.createElement('canvas');
+    canvas.width = canvas.height = SPRITE_SIZE;
+    DRAWERS[name](canvas.getContext('2d')!, softness);
+    texture = new THREE.CanvasTexture(canvas);
+    cache.set(key, texture);
+  }
+  return texture;
+};
@@ -0,0 +1,162 @@
+import { MusicSettings, Tune, TuneNote, Waveform } from '../types';
+import { getAudioContext } from './audioContext';
+import { MUSIC_PARAMS, readParams } from './params';
+
+export const WAVEFORM_LABELS: Record<Waveform, string> = {
+  sine: '正弦波',
+  triangle: '三角波',
+  square: '方波',
+  sawtooth: '锯齿波'
+};
+
+export const DEFAULT_MUSIC: MusicSettings = { waveform: 'sine', ...readParams(MUSIC_PARAMS, undefined) };
+
+// Peak gain of one full-velocity note, leaving headroom for chords
+const NOTE_GAIN = 0.2;
+// Notes are handed to Web Audio this far ahead, checked every SCHEDULE_INTERVAL ms
+const LOOKAHEAD = 0.2;
+const SCHEDULE_INTERVAL = 50;
+// Shortest attack and release, so notes don't click
+const MIN_RAMP = 0.005;
+// Time constant of volume and mute changes
+const VOLUME_SMOOTHING = 0.02;
+
+export const midiToFrequency = (pitch: number) => 440 * Math.pow(2, (pitch - 69) / 12);
+
+interface Playback {
+  tune: Tune;
+  loop: boolean;
+  // Tempo is fixed for the whole playback; changes apply from the next one
+  rate: number;
+  // Context time the current pass started at
+  passStart: number;
+  // Next note to schedule
+  index: number;
+}
+
+// Oscillator synth playing one tune at a time. Notes are scheduled a little
+// ahead on the audio clock, so long MIDI files don't create all their nodes up
+// front and loops stay seamless.
+export class Synth {
+  private settings: MusicSettings;
+  private master: GainNode | null = null;
+  private playback: Playback | null = null;
+  private timer: number | null = null;
+  private voices = new Set<OscillatorNode>();
+
+  constructor(settings: MusicSettings) {
+    this.settings = settings;
+  }
+
+  // Volume and mute apply at once; the voice and tempo to notes not yet scheduled.
+  public setSettings(settings: MusicSettings) {
+    this.settings = settings;
+    if (this.master) this.master.gain.setTargetAtTime(this.masterGain(), this.master.context.currentTime, VOLUME_SMOOTHING);
+  }
+
+  public isPlaying() {
+    return this.playback !== null;
+  }
+
+  // Replaces whatever is playing. Loops if asked to, or by the settings otherwise.
+  public play(tune: Tune, loop = this.settings.loop) {
+    this.stop();
+    const context = getAudioContext();
+    if (!this.master) {
+      this.master = context.createGain();
+      this.master.gain.value = this.masterGain();
+      this.master.connect(context.destination);
+    }
+    this.playback = { tune, loop: loop && tune.length > 0, rate: this.settings.tempo, passStart: context.currentTime + MIN_RAMP, index: 0 };
+    this.schedule();
+    this.timer = window.setInterval(this.schedule, SCHEDULE_INTERVAL);
+  }
+
+  public stop() {
+    if (this.timer !== null) window.clearInterval(this.timer);
+    this.timer = null;
+    this.playback = null;
+    this.voices.forEach(voice => voice.stop());
+    this.voices.clear();
+  }
+
+  public dispose() {
+    this.stop();
+    this.master?.disconnect();
+    this.master = null;
+  }
+
+  private masterGain() {
+    return this.settings.muted ? 0 : this.settings.volume;
+  }
+
+  private schedule = () => {
+    const playback = this.playback;
+    const master = this.master;
+    if (!playback || !master) return;
+    const { tune, rate } = playback;
+    const now = master.context.currentTime;
+    const horizon = now + LOOKAHEAD;
+
+    for (;;) {
+      const note = tune.notes[playback.index];
+      if (!note) {
+        const passEnd = playback.passStart + tune.length / rate;
+        if (!playback.loop) {
+          if (now >= passEnd) this.stop();
+          return;
+        }
+        playback.passStart = passEnd;
+        playback.index = 0;
+        if (passEnd > horizon) return;
+        continue;
+      }
+      const at = playback.passStart + note.start / rate;
+      if (at > horizon) return;
+      this.playNote(master, note, at, note.duration / rate);
+      playback.index++;
+    }
+  };
+
+  private playNote(master: GainNode, note: TuneNote, at: number, duration: number) {
+    const context = master.context;
+    const { waveform, attack: attackTime, decay, sustain, release: releaseTime } = this.settings;
+    const attack = Math.max(MIN_RAMP, attackTime);
+    const release = Math.max(MIN_RAMP, releaseTime);
+    const peak = NOTE_GAIN * note.velocity;
+    const sustainLevel = peak * sustain;
+    const end = at + duration;
+
+    const oscillator = context.createOscillator();
+    oscillator.type = waveform;
+    oscillator.frequency.value = midiToFrequency(note.pitch);
+    const envelope = context.createGain();
+    oscillator.connect(envelope);
+    envelope.connect(master);
+
+    // Attack and decay are cut short by notes shorter than them; release
+    // starts from wherever the envelope got to
+    const gain = envelope.gain;
+    gain.setValueAtTime(0, at);
+    if (duration <= attack) {
+      gain.linearRampToValueAtTime(peak * (duration / attack), end);
+    } else {
+      gain.linearRampToValueAtTime(peak, at + attack);
+      if (duration <= attack + decay) {
+        gain.linearRampToValueAtTime(peak + (sustainLevel - peak) * ((duration - attack) / decay), end);
+      } else {
+        gain.linearRampToValueAtTime(sustainLevel, at + attack + decay);
+        gain.setValueAtTime(sustainLevel, end);
+      }
+    }
+    gain.linearRampToValueAtTime(0, end + release);
+
+    oscillator.onended = () => {
+      envelope.disconnect();
+      this.voices.delete(oscillator);
+    };
+    this.voices.add(oscillator);
+    oscillator.start(at);
+    oscillator.stop(end + release);
+  }
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { EasingName, MorphKeyframe, MorphTimeline } from '../types';
+import { EASINGS, keyframeStart, normalizeTime, particleProgress, sampleTimeline, timelineDuration } from './timeline';
+
+const keyframe = (id: string, transition: number, hold: number): MorphKeyframe => ({
+  id,
+  shape: 'sphere',
+  transition,
+  hold,
+  easing: 'linear',
+  stagger: 0
+});
+
+// Segments [0, 3), [3, 7) and [7, 8)
+const KEYFRAMES = [keyframe('a', 1, 2), keyframe('b', 2, 2), keyframe('c', 1, 0)];
+const LOOPING: MorphTimeline = { keyframes: KEYFRAMES, loop: true };
+const ONCE: MorphTimeline = { keyframes: KEYFRAMES, loop: false };
+
+describe('easings', () => {
+  it.each(Object.keys(EASINGS) as EasingName[])('%s runs from 0 to 1', name => {
+    expect(EASINGS[name](0)).toBeCloseTo(0);
+    expect(EASINGS[name](1)).toBeCloseTo(1);
+  });
+
+  it('shape the middle of the transition', () => {
+    expect(EASINGS.linear(0.25)).toBe(0.25);
+    expect(EASINGS.easeIn(0.5)).toBeCloseTo(0.125);
+    expect(EASINGS.easeOut(0.5)).toBeCloseTo(0.875);
+    expect(EASINGS.easeInOut(0.5)).toBeCloseTo(0.5);
+    // Overshoots before settling
+    expect(EASINGS.backOut(0.7)).toBeGreaterThan(1);
+  });
+});
+
+describe('timeline layout', () => {
+  it('adds up transitions and holds', () => {
+    expect(timelineDuration(LOOPING)).toBe(8);
+    expect(keyframeStart(LOOPING, 0)).toBe(0);
+    expect(keyframeStart(LOOPING, 2)).toBe(7);
+  });
+
+  it('ignores negative durations', () => {
+    expect(timelineDuration({ keyframes: [keyframe('a', -1, 2)], loop: false })).toBe(2);
+  });
+
+  it('wraps seeks when looping and clamps them otherwise', () => {
+    expect(normalizeTime(LOOPING, 9.5)).toBeCloseTo(1.5);
+    expect(normalizeTime(LOOPING, -1)).toBeCloseTo(7);
+    expect(normalizeTime(ONCE, 9.5)).toBe(8);
+    expect(normalizeTime(ONCE, -1)).toBe(0);
+    expect(normalizeTime({ keyframes: [], loop: true }, 5)).toBe(0);
+  });
+});
+
+describe('sampleTimeline', () => {
+  it('morphs into a keyframe, then holds it', () => {
+    expect(sampleTimeline(ONCE, 4)).toEqual({ from: 0, to: 1, progress: 0.5 });
+    expect(sampleTimeline(ONCE, 6)).toEqual({ from: 0, to: 1, progress: 1 });
+  });
+
+  it('morphs the first keyframe in from the last only when looping', () => {
+    expect(sampleTimeline(LOOPING, 0.5)).toEqual({ from: 2, to: 0, progress: 0.5 });
+    expect(sampleTimeline(ONCE, 0.5)).toEqual({ from: 0, to: 0, progress: 1 });
+  });
+
+  it('stays on the last keyframe past the end without looping', () => {
+    expect(sampleTimeline(ONCE, 100)).toEqual({ from: 1, to: 2, progress: 1 });
+  });
+
+  it('starts over after the end when looping', () => {
+    expect(sampleTimeline(LOOPING, 8 + 4)).toEqual(sampleTimeline(LOOPING, 4));
+  });
+
+  it('starts a jumped-to keyframe at the beginning of its transition', () => {
+    expect(sampleTimeline(LOOPING, keyframeStart(LOOPING, 1))).toEqual({ from: 0, to: 1, progress: 0 });
+  });
+
+  it('reports a finished transition for an empty timeline', () => {
+    expect(sampleTimeline({ keyframes: [], loop: true }, 3)).toEqual({ from: 0, to: 0, progress: 1 });
+  });
+});
+
+describe('particleProgress', () => {
+  it('moves every particle together without stagger', () => {
+    expect(particleProgress(0.5, 0, 0, 'linear')).toBe(0.5);
+    expect(particleProgress(0.5, 1, 0, 'linear')).toBe(0.5);
+  });
+
+  it('delays later particles by their share of the stagger', () => {
+    expect(particleProgress(0.25, 0, 0.5, 'linear')).toBeCloseTo(0.5);
+    expect(particleProgress(0.25, 1, 0.5, 'linear')).toBe(0);
+    expect(particleProgress(0.75, 1, 0.5, 'linear')).toBeCloseTo(0.5);
+  });
+
+  it('applies the easing to each particle', () => {
+    expect(particleProgress(0.25, 0, 0.5, 'easeIn')).toBeCloseTo(0.125);
+  });
+
+  it('lands every particle when the transition ends', () => {
+    expect(particleProgress(1, 1, 0.95, 'elasticOut')).toBe(1);
+    // Full stagger is capped so the last particle still has time to move
+    expect(particleProgress(0.99, 1, 1, 'linear')).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,83 @@
+import { EasingName, MorphKeyframe, MorphTimeline } from '../types';
+
+// Timeline maths for morph sequences. Keyframe k occupies
+// [start_k, start_k + transition_k + hold_k): first it morphs in from the
+// previous keyframe, then it holds. Pure, so it can be scrubbed freely.
+
+export const EASINGS: Record<EasingName, (t: number) => number> = {
+  linear: t => t,
+  easeIn: t => t * t * t,
+  easeOut: t => 1 - Math.pow(1 - t, 3),
+  easeInOut: t => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+  backOut: t => 1 + 2.70158 * Math.pow(t - 1, 3) + 1.70158 * Math.pow(t - 1, 2),
+  elasticOut: t => (t <= 0 ? 0 : t >= 1 ? 1 : Math.pow(2, -10 * t) * Math.sin((t * 10 - 0.75) * ((2 * Math.PI) / 3)) + 1)
+};
+
+export const EASING_LABELS: Record<EasingName, string> = {
+  linear: '线性',
+  easeIn: '缓入',
+  easeOut: '缓出',
+  easeInOut: '缓入缓出',
+  backOut: '回弹',
+  elasticOut: '弹性'
+};
+
+// Every particle keeps at least this share of the transition to itself
+const MAX_STAGGER = 0.95;
+
+export interface TimelineSample {
+  // Keyframe being morphed away from and towards; equal while holding
+  from: number;
+  to: number;
+  // Raw 0..1 progress through the transition (1 while holding)
+  progress: number;
+}
+
+const segmentLength = (keyframe: MorphKeyframe) => Math.max(0, keyframe.transition) + Math.max(0, keyframe.hold);
+
+export const timelineDuration = ({ keyframes }: MorphTimeline) =>
+  keyframes.reduce((sum, keyframe) => sum + segmentLength(keyframe), 0);
+
+export const keyframeStart = ({ keyframes }: MorphTimeline, index: number) =>
+  keyframes.slice(0, index).reduce((sum, keyframe) => sum + segmentLength(keyframe), 0);
+
+// Wrap (loop) or clamp a time into the timeline.
+export const normalizeTime = (timeline: MorphTimeline, time: number) => {
+  const duration = timelineDuration(timeline);
+  if (duration <= 0) return 0;
+  return timeline.loop ? ((time % duration) + duration) % duration : Math.min(duration, Math.max(0, time));
+};
+
+export const sampleTimeline = (timeline: MorphTimeline, time: number): TimelineSample => {
+  const { keyframes, loop } = timeline;
+  if (keyframes.length === 0) return { from: 0, to: 0, progress: 1 };
+
+  const t = normalizeTime(timeline, time);
+  let start = 0;
+  let index = keyframes.length - 1;
+  for (let i = 0; i < keyframes.length; i++) {
+    const end = start + segmentLength(keyframes[i]);
+    if (t < end) {
+      index = i;
+      break;
+    }
+    if (i < keyframes.length - 1) start = end;
+  }
+
+  const keyframe = keyframes[index];
+  // Without looping the first keyframe has nothing to morph in from
+  const from = index > 0 ? index - 1 : loop ? keyframes.length - 1 : 0;
+  const transition = Math.max(0, keyframe.transition);
+  const progress = from === index || transition === 0 ? 1 : Math.min(1, (t - start) / transition);
+  return { from, to: index, progress };
+};
+
+// Progress of one particle: its share of the stagger delays when it starts,
+// then the eased remainder of the transition.
+// `delay` is the particle's 0..1 position in the stagger order.
+export const particleProgress = (progress: number, delay: number, stagger: number, easing: EasingName) => {
+  if (progress >= 1) return 1;
+  const spread = Math.min(MAX_STAGGER, Math.max(0, stagger));
+  const local = (progress - delay * spread) / (1 - spread);
+  return EASINGS[easing](Math.min(1, Math.max(0, local)));
+};
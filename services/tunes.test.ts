@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { HAPPY_BIRTHDAY, TuneError, parseMidi, parseNotation } from './tunes';
+
+// Standard MIDI file bytes: a header chunk and one MTrk chunk per track, each
+// track given as raw event bytes (delta times included).
+const midiFile = (tracks: number[][], division = 480, format = 1) => {
+  const u16 = (value: number) => [value >> 8, value & 0xff];
+  const u32 = (value: number) => [...u16(value >>> 16), ...u16(value & 0xffff)];
+  const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0));
+  const bytes = [...ascii('MThd'), ...u32(6), ...u16(format), ...u16(tracks.length), ...u16(division)];
+  tracks.forEach(track => bytes.push(...ascii('MTrk'), ...u32(track.length), ...track));
+  return new Uint8Array(bytes).buffer;
+};
+
+const END_OF_TRACK = [0x00, 0xff, 0x2f, 0x00];
+// 480 ticks as a variable-length quantity
+const BEAT = [0x83, 0x60];
+
+describe('parseNotation', () => {
+  it('reads pitches, accidentals and default octaves', () => {
+    const { notes } = parseNotation('C4 C#4 Db4 A4 C');
+    expect(notes.map(note => note.pitch)).toEqual([60, 61, 61, 69, 60]);
+  });
+
+  it('times notes, rests and tempo changes', () => {
+    const tune = parseNotation('C4/2 R G4*3/2 | @60 E4');
+    expect(tune.notes.map(({ start, duration }) => [start, duration])).toEqual([
+      [0, 0.25],
+      [0.75, 0.75],
+      [1.5, 1]
+    ]);
+    expect(tune.length).toBe(2.5);
+  });
+
+  it('reads the built-in birthday song', () => {
+    const tune = parseNotation(HAPPY_BIRTHDAY);
+    expect(tune.notes).toHaveLength(12);
+    expect(tune.length).toBe(6);
+  });
+
+  it('names the token it cannot read', () => {
+    expect(() => parseNotation('C4 H4')).toThrow(TuneError);
+    expect(() => parseNotation('C4 H4')).toThrow('第 2 个记号 "H4"');
+  });
+
+  it('rejects out-of-range tempos and durations, and tunes without notes', () => {
+    expect(() => parseNotation('@10 C4')).toThrow(TuneError);
+    expect(() => parseNotation('C4/0')).toThrow(TuneError);
+    expect(() => parseNotation('R R')).toThrow('曲谱中没有音符');
+  });
+});
+
+describe('parseMidi', () => {
+  it('reads notes at the default tempo', () => {
+    const track = [0x00, 0x90, 60, 127, ...BEAT, 0x80, 60, 0, ...END_OF_TRACK];
+    const tune = parseMidi(midiFile([track]));
+    expect(tune.notes).toEqual([{ pitch: 60, start: 0, duration: 0.5, velocity: 1 }]);
+    expect(tune.length).toBe(0.5);
+  });
+
+  it('follows tempo changes from another track', () => {
+    // 1 000 000 µs per beat from the second beat on (60 BPM)
+    const tempo = [...BEAT, 0xff, 0x51, 0x03, 0x0f, 0x42, 0x40, ...END_OF_TRACK];
+    const melody = [...BEAT, 0x90, 64, 64, ...BEAT, 0x90, 64, 0, ...END_OF_TRACK];
+    const [note] = parseMidi(midiFile([tempo, melody])).notes;
+    expect(note.start).toBeCloseTo(0.5);
+    expect(note.duration).toBeCloseTo(1);
+    expect(note.velocity).toBeCloseTo(64 / 127);
+  });
+
+  it('reads running status and skips the drum channel', () => {
+    const track = [0x00, 0x99, 36, 100, 0x00, 0x90, 60, 100, 0x00, 67, 100, ...BEAT, 0x80, 60, 0, 0x00, 67, 0, ...END_OF_TRACK];
+    const { notes } = parseMidi(midiFile([track]));
+    expect(notes.map(note => note.pitch).sort()).toEqual([60, 67]);
+  });
+
+  it('closes notes left sounding at the end of their track', () => {
+    const track = [0x00, 0x90, 60, 100, ...BEAT, 0xff, 0x2f, 0x00];
+    expect(parseMidi(midiFile([track])).notes[0].duration).toBe(0.5);
+  });
+
+  it('rejects files it cannot play', () => {
+    expect(() => parseMidi(new TextEncoder().encode('not a midi file').buffer)).toThrow('不是 MIDI 文件');
+    expect(() => parseMidi(midiFile([[0x00, 0x90, 60]]))).toThrow('MIDI 文件已损坏');
+    expect(() => parseMidi(midiFile([END_OF_TRACK]))).toThrow('MIDI 文件中没有可播放的音符');
+    expect(() => parseMidi(midiFile([END_OF_TRACK], 0xe728))).toThrow(TuneError);
+  });
+});
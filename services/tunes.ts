@@ -0,0 +1,245 @@
+import { Tune, TuneNote } from '../types';
+
+// Note notation: whitespace-separated tokens, one beat being a quarter note.
+//   C4 D#4 Eb5     note name, optional # or b, octave (4 if left out); one beat long
+//   C4/2 G3*3/2    duration as a multiple and/or fraction of a beat
+//   R R*2          rest
+//   @90            tempo in beats per minute from here on (120 to start with)
+//   |              bar line, ignored
+export const HAPPY_BIRTHDAY = '@120 C4/2 C4/2 D4 C4 F4 E4*2 | C4/2 C4/2 D4 C4 G4 F4*2';
+export const CELEBRATION = '@180 G4/2 C5/2 E5/2 G5 E5/2 G5*3';
+
+const DEFAULT_TEMPO = 120;
+const TEMPO_RANGE = [20, 400];
+const NOTE_PATTERN = /^([A-G])([#b]?)(-?\d)?((?:[*/]\d+(?:\.\d+)?)*)$/;
+const REST_PATTERN = /^R((?:[*/]\d+(?:\.\d+)?)*)$/;
+const TEMPO_PATTERN = /^@(\d+(?:\.\d+)?)$/;
+const SEMITONES: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+const NOTATION_VELOCITY = 0.8;
+
+// MIDI channel 10 carries percussion, which a melodic synth can't play
+const MIDI_DRUM_CHANNEL = 9;
+// Microseconds per quarter note until a tempo event says otherwise (120 BPM)
+const MIDI_DEFAULT_TEMPO = 500000;
+
+export class TuneError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TuneError';
+  }
+}
+
+// "*3/2" -> 1.5
+const readDuration = (modifiers: string) =>
+  Array.from(modifiers.matchAll(/([*/])(\d+(?:\.\d+)?)/g)).reduce((beats, [, operator, operand]) => {
+    const value = Number(operand);
+    return operator === '*' ? beats * value : beats / value;
+  }, 1);
+
+// Throws TuneError naming the first token it can't read.
+export const parseNotation = (notation: string): Tune => {
+  const notes: TuneNote[] = [];
+  let time = 0;
+  let secondsPerBeat = 60 / DEFAULT_TEMPO;
+
+  notation.split(/\s+/).filter(token => token && token !== '|').forEach((token, index) => {
+    const fail = (problem: string): never => {
+      throw new TuneError(`第 ${index + 1} 个记号 "${token}"：${problem}`);
+    };
+
+    const tempo = TEMPO_PATTERN.exec(token);
+    if (tempo) {
+      const bpm = Number(tempo[1]);
+      if (bpm < TEMPO_RANGE[0] || bpm > TEMPO_RANGE[1]) fail(`速度应为 ${TEMPO_RANGE[0]} ~ ${TEMPO_RANGE[1]}`);
+      secondsPerBeat = 60 / bpm;
+      return;
+    }
+
+    const rest = REST_PATTERN.exec(token);
+    const note = rest ? null : NOTE_PATTERN.exec(token);
+    if (!rest && !note) fail('无法识别，音符应写作 C4、D#4/2 或 R');
+    const beats = readDuration(rest ? rest[1] : note![4]);
+    if (!Number.isFinite(beats) || beats <= 0) fail('时值无效');
+    const duration = beats * secondsPerBeat;
+
+    if (note) {
+      const [, name, accidental, octave] = note;
+      const pitch = (Number(octave ?? 4) + 1) * 12 + SEMITONES[name] + (accidental === '#' ? 1 : accidental === 'b' ? -1 : 0);
+      if (pitch < 0 || pitch > 127) fail('音高超出范围');
+      notes.push({ pitch, start: time, duration, velocity: NOTATION_VELOCITY });
+    }
+    time += duration;
+  });
+
+  if (notes.length === 0) throw new TuneError('曲谱中没有音符');
+  return { notes, length: time };
+};
+
+// --- Standard MIDI files ---
+
+interface MidiEvent {
+  tick: number;
+  type: 'on' | 'off' | 'tempo';
+  channel: number;
+  pitch: number;
+  velocity: number;
+  tempo: number;
+}
+
+const corrupt = (): never => {
+  throw new TuneError('MIDI 文件已损坏');
+};
+
+class ByteReader {
+  constructor(private bytes: Uint8Array, public position = 0) {}
+
+  public get remaining() {
+    return this.bytes.length - this.position;
+  }
+
+  public byte() {
+    if (this.position >= this.bytes.length) corrupt();
+    return this.bytes[this.position++];
+  }
+
+  public uint(length: number) {
+    let value = 0;
+    for (let i = 0; i < length; i++) value = value * 256 + this.byte();
+    return value;
+  }
+
+  public text(length: number) {
+    return String.fromCharCode(...Array.from({ length }, () => this.byte()));
+  }
+
+  // Variable-length quantity: 7 bits per byte, high bit set on all but the last
+  public variable() {
+    let value = 0;
+    for (let i = 0; i < 4; i++) {
+      const byte = this.byte();
+      value = value * 128 + (byte & 0x7f);
+      if (!(byte & 0x80)) return value;
+    }
+    return corrupt();
+  }
+
+  public skip(length: number) {
+    if (length > this.remaining) corrupt();
+    this.position += length;
+  }
+}
+
+const readTrack = (reader: ByteReader): { events: MidiEvent[]; endTick: number } => {
+  const events: MidiEvent[] = [];
+  let tick = 0;
+  let runningStatus = 0;
+  while (reader.remaining > 0) {
+    tick += reader.variable();
+    let status = reader.byte();
+    if (status < 0x80) {
+      // Running status: the byte just read is the first data byte
+      if (!runningStatus) corrupt();
+      status = runningStatus;
+      reader.position--;
+    }
+
+    if (status === 0xff) {
+      const metaType = reader.byte();
+      const length = reader.variable();
+      if (metaType === 0x51 && length === 3) {
+        events.push({ tick, type: 'tempo', channel: 0, pitch: 0, velocity: 0, tempo: reader.uint(3) });
+      } else {
+        reader.skip(length);
+      }
+      if (metaType === 0x2f) break;
+    } else if (status === 0xf0 || status === 0xf7) {
+      reader.skip(reader.variable());
+      runningStatus = 0;
+    } else {
+      runningStatus = status;
+      const kind = status & 0xf0;
+      const channel = status & 0x0f;
+      const first = reader.byte();
+      const second = kind === 0xc0 || kind === 0xd0 ? 0 : reader.byte();
+      if (kind === 0x90 && second > 0) {
+        events.push({ tick, type: 'on', channel, pitch: first, velocity: second / 127, tempo: 0 });
+      } else if (kind === 0x80 || kind === 0x90) {
+        events.push({ tick, type: 'off', channel, pitch: first, velocity: 0, tempo: 0 });
+      }
+    }
+  }
+  return { events, endTick: tick };
+};
+
+// Converts ticks to seconds through the tempo changes, which apply to every track.
+const createTickClock = (tempoEvents: MidiEvent[], ticksPerBeat: number) => {
+  const changes = [...tempoEvents].sort((a, b) => a.tick - b.tick);
+  return (tick: number) => {
+    let seconds = 0;
+    let lastTick = 0;
+    let tempo = MIDI_DEFAULT_TEMPO;
+    for (const change of changes) {
+      if (change.tick >= tick) break;
+      seconds += ((change.tick - lastTick) * tempo) / ticksPerBeat / 1e6;
+      lastTick = change.tick;
+      tempo = change.tempo;
+    }
+    return seconds + ((tick - lastTick) * tempo) / ticksPerBeat / 1e6;
+  };
+};
+
+// Reads format 0 and 1 files; every melodic channel is merged into one tune.
+// Throws TuneError.
+export const parseMidi = (buffer: ArrayBuffer): Tune => {
+  const reader = new ByteReader(new Uint8Array(buffer));
+  if (reader.remaining < 14 || reader.text(4) !== 'MThd') throw new TuneError('不是 MIDI 文件');
+  const headerLength = reader.uint(4);
+  if (headerLength < 6) corrupt();
+  reader.uint(2); // Format; tracks are merged either way
+  const trackCount = reader.uint(2);
+  const division = reader.uint(2);
+  reader.skip(headerLength - 6);
+  if (division & 0x8000) throw new TuneError('不支持 SMPTE 时间格式的 MIDI 文件');
+
+  const tracks: { events: MidiEvent[]; endTick: number }[] = [];
+  while (tracks.length < trackCount && reader.remaining >= 8) {
+    const type = reader.text(4);
+    const length = reader.uint(4);
+    if (length > reader.remaining) corrupt();
+    const end = reader.position + length;
+    if (type === 'MTrk') {
+      const track = new ByteReader(new Uint8Array(buffer, reader.position, length));
+      tracks.push(readTrack(track));
+    }
+    reader.position = end;
+  }
+
+  const events = tracks.flatMap(track => track.events);
+  const toSeconds = createTickClock(events.filter(event => event.type === 'tempo'), division);
+  const endTick = tracks.reduce((latest, track) => Math.max(latest, track.endTick), 0);
+  const notes: TuneNote[] = [];
+  tracks.forEach(track => {
+    // Notes still sounding, by channel and pitch; repeated note-ons close in order
+    const open = new Map<number, MidiEvent[]>();
+    const close = (start: MidiEvent, tick: number) => {
+      const begin = toSeconds(start.tick);
+      notes.push({ pitch: start.pitch, start: begin, duration: Math.max(0, toSeconds(tick) - begin), velocity: start.velocity });
+    };
+    track.events.forEach(event => {
+      if (event.type === 'tempo' || event.channel === MIDI_DRUM_CHANNEL) return;
+      const key = event.channel * 128 + event.pitch;
+      if (event.type === 'on') {
+        open.set(key, [...(open.get(key) ?? []), event]);
+      } else {
+        const start = open.get(key)?.shift();
+        if (start) close(start, event.tick);
+      }
+    });
+    open.forEach(starts => starts.forEach(start => close(start, track.endTick)));
+  });
+
+  if (notes.length === 0) throw new TuneError('MIDI 文件中没有可播放的音符');
+  notes.sort((a, b) => a.start - b.start);
+  const length = notes.reduce((latest, note) => Math.max(latest, note.start + note.duration), toSeconds(endTick));
+  return { notes, length };
+};
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { ZipLimitError, ZipWriter } from './zip';
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+
+const readZip = async (writer: ZipWriter) => new DataView(await writer.finish().arrayBuffer());
+
+const text = (view: DataView, offset: number, length: number) =>
+  new TextDecoder().decode(new Uint8Array(view.buffer, offset, length));
+
+describe('ZipWriter', () => {
+  it('writes a stored local entry with its CRC-32', async () => {
+    const writer = new ZipWriter();
+    writer.add('check.txt', bytes('123456789'));
+    const zip = await readZip(writer);
+
+    expect(zip.getUint32(0, true)).toBe(0x04034b50);
+    expect(zip.getUint16(8, true)).toBe(0);
+    // The standard CRC-32 check value
+    expect(zip.getUint32(14, true)).toBe(0xcbf43926);
+    expect(zip.getUint32(18, true)).toBe(9);
+    expect(zip.getUint32(22, true)).toBe(9);
+    expect(zip.getUint16(26, true)).toBe('check.txt'.length);
+    expect(text(zip, 30, 9)).toBe('check.txt');
+    expect(text(zip, 39, 9)).toBe('123456789');
+  });
+
+  it('indexes every entry in the central directory', async () => {
+    const writer = new ZipWriter();
+    writer.add('frame-0000.png', bytes('first'));
+    writer.add('frame-0001.png', bytes('second frame'));
+    const zip = await readZip(writer);
+
+    const end = zip.byteLength - 22;
+    expect(zip.getUint32(end, true)).toBe(0x06054b50);
+    expect(zip.getUint16(end + 8, true)).toBe(2);
+    expect(zip.getUint16(end + 10, true)).toBe(2);
+    const directorySize = zip.getUint32(end + 12, true);
+    const directoryOffset = zip.getUint32(end + 16, true);
+    expect(directoryOffset + directorySize).toBe(end);
+
+    const entries: { name: string; size: number; offset: number }[] = [];
+    for (let at = directoryOffset; at < end; ) {
+      expect(zip.getUint32(at, true)).toBe(0x02014b50);
+      const nameLength = zip.getUint16(at + 28, true);
+      entries.push({ name: text(zip, at + 46, nameLength), size: zip.getUint32(at + 24, true), offset: zip.getUint32(at + 42, true) });
+      at += 46 + nameLength;
+    }
+    expect(entries.map(({ name, size }) => [name, size])).toEqual([
+      ['frame-0000.png', 5],
+      ['frame-0001.png', 12]
+    ]);
+
+    // Each directory record points back at its local header
+    entries.forEach(({ name, offset }) => {
+      expect(zip.getUint32(offset, true)).toBe(0x04034b50);
+      expect(text(zip, offset + 30, name.length)).toBe(name);
+    });
+  });
+
+  it('writes an empty archive', async () => {
+    const zip = await readZip(new ZipWriter());
+    expect(zip.byteLength).toBe(22);
+    expect(zip.getUint16(8, true)).toBe(0);
+  });
+
+  it('refuses entries past its size limit, keeping the ones before', async () => {
+    // Two entries of 30 + 5 + 5 bytes fit, a third doesn't
+    const writer = new ZipWriter(100);
+    writer.add('a.png', bytes('first'));
+    writer.add('b.png', bytes('other'));
+    expect(() => writer.add('c.png', bytes('third'))).toThrow(ZipLimitError);
+    const zip = await readZip(writer);
+    expect(zip.getUint16(zip.byteLength - 22 + 8, true)).toBe(2);
+  });
+});
@@ -0,0 +1,108 @@
+// Minimal ZIP writer for bundling rendered frames. Entries are stored
+// uncompressed: PNGs are compressed already, so deflating them gains little.
+
+// Without ZIP64, offsets and the entry count have to fit the classic header fields
+const MAX_ARCHIVE_SIZE = 0xffffffff;
+const MAX_ENTRIES = 0xffff;
+
+export class ZipLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipLimitError';
+  }
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS time and date fields, as ZIP headers store them
+const dosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+interface ZipEntry {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+}
+
+export class ZipWriter {
+  private parts: BlobPart[] = [];
+  private entries: ZipEntry[] = [];
+  private offset = 0;
+  private modified = dosDateTime(new Date());
+
+  // `maxSize` caps the local entries, in bytes; the central directory follows them.
+  constructor(private maxSize = MAX_ARCHIVE_SIZE) {}
+
+  // Throws ZipLimitError instead of writing an archive that would wrap around.
+  public add(name: string, data: Uint8Array) {
+    const encodedName = new TextEncoder().encode(name);
+    const length = 30 + encodedName.length + data.length;
+    if (this.offset + length > this.maxSize || this.entries.length >= MAX_ENTRIES) {
+      throw new ZipLimitError('帧序列超出 ZIP 格式的上限 (4 GB)，请改用 PNG 文件夹输出');
+    }
+
+    const entry = { name: encodedName, crc: crc32(data), size: data.length, offset: this.offset };
+    const header = new DataView(new ArrayBuffer(30));
+    header.setUint32(0, 0x04034b50, true);
+    header.setUint16(4, 20, true); // Version needed to extract
+    header.setUint16(8, 0, true); // Stored
+    header.setUint16(10, this.modified.time, true);
+    header.setUint16(12, this.modified.date, true);
+    header.setUint32(14, entry.crc, true);
+    header.setUint32(18, entry.size, true);
+    header.setUint32(22, entry.size, true);
+    header.setUint16(26, entry.name.length, true);
+
+    this.parts.push(header.buffer, entry.name, data);
+    this.entries.push(entry);
+    this.offset += length;
+  }
+
+  public finish(): Blob {
+    const directoryOffset = this.offset;
+    let directorySize = 0;
+    const directory: BlobPart[] = [];
+    this.entries.forEach(entry => {
+      const header = new DataView(new ArrayBuffer(46));
+      header.setUint32(0, 0x02014b50, true);
+      header.setUint16(4, 20, true); // Version made by
+      header.setUint16(6, 20, true); // Version needed to extract
+      header.setUint16(10, 0, true); // Stored
+      header.setUint16(12, this.modified.time, true);
+      header.setUint16(14, this.modified.date, true);
+      header.setUint32(16, entry.crc, true);
+      header.setUint32(20, entry.size, true);
+      header.setUint32(24, entry.size, true);
+      header.setUint16(28, entry.name.length, true);
+      header.setUint32(42, entry.offset, true);
+      directory.push(header.buffer, entry.name);
+      directorySize += 46 + entry.name.length;
+    });
+
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);
+    end.setUint16(8, this.entries.length, true);
+    end.setUint16(10, this.entries.length, true);
+    end.setUint32(12, directorySize, true);
+    end.setUint32(16, directoryOffset, true);
+
+    return new Blob([...this.parts, ...directory, end.buffer], { type: 'application/zip' });
+  }
+}
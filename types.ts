@@ -1,4 +1,5 @@
 import * as THREE from 'three';
+import type { SpriteName } from './services/sprites';
 
 export enum EffectType {
   // Basic Effects
@@ -6,22 +7,437 @@ export enum EffectType {
   WAVE = 'WAVE',
   RAIN = 'RAIN',
   SPHERE = 'SPHERE',
-  
+
   // Creative Effects
   CREATIVE_TEXT = 'CREATIVE_TEXT',
   CREATIVE_HEART_FIREWORK = 'CREATIVE_HEART_FIREWORK',
-  CREATIVE_CAT_CAKE = 'CREATIVE_CAT_CAKE'
+  CREATIVE_CAT_CAKE = 'CREATIVE_CAT_CAKE',
+  MORPH_SEQUENCE = 'MORPH_SEQUENCE'
+}
+
+export enum GestureType {
+  NONE = 'NONE',
+  OPEN_PALM = 'OPEN_PALM',
+  FIST = 'FIST',
+  VICTORY = 'VICTORY',
+  THUMBS_UP = 'THUMBS_UP',
+  THUMBS_DOWN = 'THUMBS_DOWN',
+  POINTING = 'POINTING',
+  OK = 'OK',
+  ROCK = 'ROCK',
+  PINCH = 'PINCH',
+
+  // Two-handed
+  HEART_HANDS = 'HEART_HANDS'
+}
+
+export type Handedness = 'Left' | 'Right';
+
+// Built-in effects use EffectType values; registered effects may use any unique string.
+export type EffectId = EffectType | (string & {});
+
+export type EffectCategory = 'basic' | 'creative';
+
+// Which MediaPipe pipeline an effect needs from the camera.
+export type VisionInput = 'none' | 'hand' | 'object' | 'face';
+
+export type TextAlign = 'left' | 'center' | 'right';
+
+// Typography for particle text targets.
+export interface TextStyle {
+  // Lines separated by "\n"
+  content: string;
+  fontFamily: string;
+  fontWeight: string;
+  // Pixels on the 512px layout canvas, before auto-fit
+  fontSize: number;
+  align: TextAlign;
+  // Extra pixels between characters
+  letterSpacing: number;
+  // Line spacing as a multiple of fontSize
+  lineHeight: number;
+}
+
+// Uploaded or linked picture used as a morph target.
+export interface ImageTarget {
+  // Data URL of an uploaded file, or a URL such as a local asset
+  src: string;
+  // Place more particles where the image is brighter
+  brightnessDensity: boolean;
+  // Take particle colours from the image instead of config.color
+  sampleColors: boolean;
+  // Pixels more transparent than this (0..1) get no particles
+  alphaThreshold: number;
+  // World units between the darkest and brightest pixels along z; 0 keeps it flat
+  depth: number;
+}
+
+export type ModelFormat = 'obj' | 'ply' | 'gltf';
+
+// Mesh whose surface is sampled into a morph target.
+export interface ModelTarget {
+  // Data URL of an uploaded file, or a URL such as a local asset
+  src: string;
+  format: ModelFormat;
+  // Take particle colours from vertex colours / textures instead of config.color
+  sampleColors: boolean;
+}
+
+// Shapes a morph sequence can visit. text / image / model use the
+// matching EffectConfig fields.
+export type MorphShape = 'galaxy' | 'sphere' | 'heart' | 'text' | 'image' | 'model';
+
+export type EasingName = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut' | 'backOut' | 'elasticOut';
+
+export interface MorphKeyframe {
+  id: string;
+  shape: MorphShape;
+  // Seconds spent morphing into this shape from the previous one
+  transition: number;
+  // Seconds the shape is held once reached
+  hold: number;
+  easing: EasingName;
+  // 0..1: how much of the transition is spread across particles; 0 moves all at once
+  stagger: number;
+  // Colour for the whole shape; undefined keeps its own colours
+  color?: string;
+}
+
+export interface MorphTimeline {
+  keyframes: MorphKeyframe[];
+  loop: boolean;
+}
+
+interface ParamSpecBase {
+  label: string;
+  // Heading the control is listed under
+  group?: string;
+  // Only read per frame, so it applies without regenerating the effect
+  live?: boolean;
 }
 
+export interface NumberParamSpec extends ParamSpecBase {
+  type: 'number';
+  min: number;
+  max: number;
+  step: number;
+  default: number;
+}
+
+export interface ColorParamSpec extends ParamSpecBase {
+  type: 'color';
+  default: string;
+}
+
+export interface BooleanParamSpec extends ParamSpecBase {
+  type: 'boolean';
+  default: boolean;
+}
+
+export type ParamSpec = NumberParamSpec | ColorParamSpec | BooleanParamSpec;
+
+// An effect's tunable parameters by key; the settings panel renders them.
+export type ParamSchema = Record<string, ParamSpec>;
+
+export type ParamValue = number | string | boolean;
+
+export type ParamValues<S extends ParamSchema> = { [K in keyof S]: S[K]['default'] };
+
 export interface EffectConfig {
   count: number;
   size: number;
   speed: number;
   color: string;
+  seed: number;
+  // Overrides the effect's default particle sprite
+  sprite?: SpriteName;
+  // Sprite edge softness, 0..1
+  spriteFalloff?: number;
+  // Overrides the message and typography of text effects
+  text?: Partial<TextStyle>;
+  // Replaces the text target of effects that accept shape targets
+  image?: ImageTarget;
+  // Same, for a 3D model; wins over image
+  model?: ModelTarget;
+  // Keyframes of the morph sequence effect
+  timeline?: MorphTimeline;
+  // Values for each effect's parameter schema; missing ones use the default
+  params?: Partial<Record<EffectId, Record<string, ParamValue>>>;
+}
+
+// Base camera pose; two-handed gestures orbit and zoom on top of it.
+export interface CameraSettings {
+  distance: number;
+  height: number;
+  // Degrees around the vertical axis
+  orbit: number;
+  fov: number;
+}
+
+// Everything needed to reproduce a scene.
+export interface ScenePreset {
+  name: string;
+  effect: EffectId;
+  config: EffectConfig;
+  camera: CameraSettings;
+}
+
+export type TransitionStyle = 'cut' | 'dissolve' | 'implode' | 'explode' | 'swirl';
+
+// How particles move when switching from one effect to another.
+export interface TransitionSettings {
+  style: TransitionStyle;
+  // Seconds
+  duration: number;
+}
+
+export interface PlaybackState {
+  paused: boolean;
+  timeScale: number;
+  fixedTimestep: boolean;
+}
+
+// A clip rendered frame by frame at a fixed timestep, however long each frame takes.
+export interface OfflineRenderSettings {
+  width: number;
+  height: number;
+  fps: number;
+  // Seconds of simulation
+  duration: number;
+  // Restart the effect and clock first, so the same settings give the same frames
+  fromStart: boolean;
+}
+
+export interface RenderFramesOptions {
+  onProgress?: (rendered: number, total: number) => void;
+  // Stops after the current frame; the frames written so far are kept
+  signal?: AbortSignal;
+}
+
+export type FrameOutput = 'zip' | 'png';
+
+// What shows behind the particles in a snapshot: the page's black, nothing
+// (for compositing elsewhere) or the current webcam frame (photo booth).
+export type SnapshotBackground = 'scene' | 'transparent' | 'webcam';
+
+export interface SnapshotSettings {
+  // Multiple of the window size, in CSS pixels
+  scale: number;
+  background: SnapshotBackground;
+}
+
+// Held states an effect can react to; raised and released by input bindings.
+export type EffectTrigger = 'morph' | 'firework';
+
+// Face movements the face landmarker raises as triggers
+export type FaceExpression = 'smile' | 'mouthOpen' | 'browRaise' | 'blink' | 'turnLeft' | 'turnRight' | 'lookUp' | 'lookDown';
+
+export type BindingSource =
+  | { kind: 'gesture'; gesture: GestureType }
+  | { kind: 'object'; category: string }
+  | { kind: 'face'; expression: FaceExpression };
+
+export type BindingAction =
+  | { type: 'switchEffect'; effect: EffectId }
+  | { type: 'trigger'; trigger: EffectTrigger }
+  | { type: 'playMusic' }
+  | { type: 'stopMusic' }
+  | { type: 'setColor'; color: string }
+  | { type: 'screenshot' }
+  | { type: 'jumpToKeyframe'; index: number };
+
+// 'start' when the source gesture/object appears, 'end' when it is released.
+// Only triggers are held; every other action fires on 'start'.
+export type ActionPhase = 'start' | 'end';
+
+export interface InputBinding {
+  id: string;
+  source: BindingSource;
+  action: BindingAction;
+  // Restrict the binding to one effect; undefined applies everywhere.
+  effect?: EffectId;
+}
+
+// Continuous hand tracking sample. Positions are normalized to -1..1
+// (x right, y up) in the mirrored view the user sees.
+export interface HandInput {
+  handedness: Handedness;
+  position: { x: number; y: number };
+  // 0 = fist, 1 = all fingers straight
+  openness: number;
+  // Thumb-to-index tip distance relative to palm size
+  pinch: number;
+  // Roll of the palm in radians, 0 = fingers pointing up
+  rotation: number;
+  // Normalized units per second
+  velocity: { x: number; y: number };
+}
+
+// Relation between two tracked hands, ordered left to right on screen.
+export interface TwoHandInput {
+  // Distance between palm centres in normalized units
+  distance: number;
+  // Angle of the line from the left to the right hand, radians
+  angle: number;
+  center: { x: number; y: number };
+}
+
+// Detected object of a bound category, with its bounding box in the same
+// normalized, mirrored coordinates as HandInput.
+export interface ObjectInput {
+  category: string;
+  // Detector confidence, 0..1
+  score: number;
+  center: { x: number; y: number };
+  // 2 = the full width/height of the view
+  size: { width: number; height: number };
+}
+
+// Continuous face tracking sample from the landmarker's blendshapes and
+// head pose. Expressions are 0..1.
+export interface FaceInput {
+  // Nose tip, normalized like HandInput
+  position: { x: number; y: number };
+  smile: number;
+  mouthOpen: number;
+  browRaise: number;
+  // Both eyes closed; a wink doesn't count
+  blink: number;
+  // Head pose in radians: turning right and looking up are positive, as seen
+  // in the mirrored view
+  yaw: number;
+  pitch: number;
+}
+
+// Minimum detector score per object category, 0..1
+export type ObjectThresholds = Record<string, number>;
+
+export interface InputState {
+  // First tracked hand, kept for effects that only follow one
+  hand: HandInput | null;
+  hands: HandInput[];
+  twoHand: TwoHandInput | null;
+  objects: ObjectInput[];
+  face: FaceInput | null;
+}
+
+export type Waveform = 'sine' | 'square' | 'sawtooth' | 'triangle';
+
+// Synth voice and playback settings for tunes
+export interface MusicSettings {
+  waveform: Waveform;
+  // ADSR envelope: attack, decay and release in seconds, sustain as a share of the peak
+  attack: number;
+  decay: number;
+  sustain: number;
+  release: number;
+  // Playback rate; 1 plays a tune at its written tempo
+  tempo: number;
+  loop: boolean;
+  // 0..1
+  volume: number;
+  muted: boolean;
+}
+
+export interface TuneNote {
+  // MIDI note number, 60 = C4
+  pitch: number;
+  // Seconds from the start of the tune, at its written tempo
+  start: number;
+  duration: number;
+  // 0..1
+  velocity: number;
+}
+
+export interface Tune {
+  notes: TuneNote[];
+  // Seconds, including trailing rests
+  length: number;
+}
+
+// A tune an effect plays when one of its triggers is raised, in note notation.
+// Looping tunes play while the trigger is held; others play through once.
+export interface TriggerTune {
+  notation: string;
+  loop?: boolean;
+}
+
+// Where the audio-reactive analysis listens
+export type AudioInput = 'none' | 'microphone' | 'file';
+
+// Analysis of the incoming audio, sampled once per simulation step. All
+// values are 0..1 and stay 0 while there is no audio input.
+export interface AudioFeatures {
+  bass: number;
+  mid: number;
+  treble: number;
+  // Overall loudness
+  level: number;
+  // A bass onset was detected on this step
+  beat: boolean;
+}
+
+// Services the SceneManager exposes to the running effect.
+export interface EffectContext {
+  isTriggerActive: (trigger: EffectTrigger) => boolean;
+  getInput: () => InputState;
+  getAudio: () => AudioFeatures;
+  // Plays a tune in note notation once, in place of whatever is playing
+  playTune: (notation: string) => void;
+}
+
+export interface TimelinePosition {
+  time: number;
+  duration: number;
+  // Keyframe currently morphing in or held
+  keyframe: number;
+}
+
+// Implemented by effects that play a morph timeline.
+export interface TimelineControl {
+  getPosition: () => TimelinePosition;
+  seek: (time: number) => void;
+  // Morph from wherever the particles are to the keyframe
+  jumpTo: (index: number) => void;
+}
+
+// Particles as currently drawn, in scene coordinates with final colours.
+export interface ParticleSnapshot {
+  count: number;
+  positions: Float32Array;
+  colors: Float32Array;
 }
 
 export interface ParticleSystem {
-  init: (scene: THREE.Scene, config: EffectConfig) => void;
-  update: (time: number) => void;
+  init: (scene: THREE.Scene, config: EffectConfig, context: EffectContext) => void;
+  // time and deltaTime are simulation seconds from the SceneManager clock.
+  update: (time: number, deltaTime: number) => void;
   cleanup: (scene: THREE.Scene) => void;
-}
\ No newline at end of file
+  // Applies a changed config to the running effect; false means it has to be recreated.
+  updateConfig?: (config: EffectConfig) => boolean;
+  timeline?: TimelineControl;
+  // Used to morph between effects; effects without them cut instantly.
+  getSnapshot?: () => ParticleSnapshot | null;
+  setVisible?: (visible: boolean) => void;
+}
+
+export interface EffectDefinition {
+  id: EffectId;
+  name: string;
+  category: EffectCategory;
+  vision: VisionInput;
+  // Message shown by effects that morph into text; marks them as text effects
+  defaultText?: string;
+  // Whether the effect can morph into an image or 3D model target
+  acceptsShapeTargets?: boolean;
+  // Whether the effect plays config.timeline
+  usesTimeline?: boolean;
+  params?: ParamSchema;
+  tunes?: Partial<Record<EffectTrigger, TriggerTune>>;
+  // Starts the microphone, if no other audio input is running, while the effect is active
+  microphone?: boolean;
+  // Runs the face landmarker, next to the effect's own vision input, for
+  // effects that react to expressions or head pose
+  face?: boolean;
+  create: () => ParticleSystem;
+}
@@ -1,7 +1,31 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { Connect, Plugin, defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Missing offline assets answer 404 instead of falling back to index.html,
+// so the CDN fallbacks in services/assets.ts and index.html kick in.
+const missingOfflineAssets = (): Plugin => {
+  const notFound = (root: string): Connect.NextHandleFunction => (req, res, next) => {
+    const pathname = decodeURIComponent(new URL(req.url ?? '/', 'http://localhost').pathname);
+    if (pathname.startsWith('/offline/') && !fs.existsSync(path.join(root, pathname))) {
+      res.statusCode = 404;
+      res.end();
+      return;
+    }
+    next();
+  };
+  return {
+    name: 'missing-offline-assets',
+    configureServer(server) {
+      server.middlewares.use(notFound(server.config.publicDir));
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(notFound(path.resolve(server.config.root, server.config.build.outDir)));
+    }
+  };
+};
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,10 +33,12 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), missingOfflineAssets()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.ASSET_BASE_URL': JSON.stringify(env.ASSET_BASE_URL),
+        'process.env.ASSET_REMOTE_FALLBACK': JSON.stringify(env.ASSET_REMOTE_FALLBACK)
       },
       resolve: {
         alias: {